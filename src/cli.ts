@@ -0,0 +1,127 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import * as path from "path";
+import { DiagnosticSeverity } from "vscode-languageserver/node";
+import { URI } from "vscode-uri";
+import { Logger } from "./logger";
+import { DiagnosticsProvider } from "./lspCapabilities/diagnosticsProvider";
+import { ConfigDiagnosticsProvider } from "./lspCapabilities/configDiagnosticsProvider";
+import {
+  DefaultDiagnosticsOptions,
+  DiagnosticsOptions,
+} from "./lspCapabilities/types";
+import { TemplateWorkspaceScanner } from "./templates/templateWorkspaceScanner";
+import {
+  FileDiagnostics,
+  formatHuman,
+  formatJson,
+  formatSarif,
+  OUTPUT_FORMATS,
+  OutputFormat,
+} from "./utils/diagnosticsFormatter";
+
+const USAGE = `Usage: liquid-ls check <root> [--format human|json|sarif] [--required-locales default,nl,fr]
+
+Runs the language server diagnostics over every template of a repository.
+Exits with code 1 when errors are found.
+`;
+
+/**
+ * Runs the diagnostics providers of the server over every Liquid file and
+ * config.json of the templates found under the root
+ */
+async function checkRepository(
+  root: string,
+  options: DiagnosticsOptions,
+): Promise<FileDiagnostics[]> {
+  const results: FileDiagnostics[] = [];
+  const scanner = new TemplateWorkspaceScanner(root);
+
+  for (const template of scanner.listTemplates()) {
+    const configPath = path.join(template.templateDir, "config.json");
+    const files = scanner.listLiquidFiles(template.templateDir);
+    if (fs.existsSync(configPath)) {
+      files.push(configPath);
+    }
+
+    for (const filePath of files) {
+      const uri = URI.file(filePath).toString();
+      const provider =
+        path.basename(filePath) === "config.json"
+          ? new ConfigDiagnosticsProvider(uri, root)
+          : new DiagnosticsProvider(uri, root, options);
+      const diagnostics = await provider.handleDiagnosticsRequest();
+      if (diagnostics.length > 0) {
+        results.push({ filePath: path.relative(root, filePath), diagnostics });
+      }
+    }
+  }
+
+  return results;
+}
+
+async function main(args: string[]): Promise<number> {
+  const [command, root, ...flags] = args;
+  if (command !== "check" || !root) {
+    process.stderr.write(USAGE);
+    return 2;
+  }
+
+  let format: OutputFormat = "human";
+  const options: DiagnosticsOptions = { ...DefaultDiagnosticsOptions };
+  for (let i = 0; i < flags.length; i++) {
+    const flag = flags[i];
+    const value = flags[i + 1];
+    if (flag !== "--format" && flag !== "--required-locales") {
+      process.stderr.write(`Unknown option: ${flag}\n\n${USAGE}`);
+      return 2;
+    }
+    if (!value) {
+      process.stderr.write(`Missing value for ${flag}\n\n${USAGE}`);
+      return 2;
+    }
+
+    if (flag === "--format") {
+      if (!(OUTPUT_FORMATS as readonly string[]).includes(value)) {
+        process.stderr.write(
+          `Invalid value for --format: ${value} (expected ${OUTPUT_FORMATS.join("|")})\n`,
+        );
+        return 2;
+      }
+      format = value as OutputFormat;
+    } else {
+      options.requiredLocales = value.split(",").filter(Boolean);
+    }
+    i++;
+  }
+
+  const rootPath = path.resolve(root);
+  if (!fs.existsSync(rootPath)) {
+    process.stderr.write(`Directory not found: ${rootPath}\n`);
+    return 2;
+  }
+
+  Logger.configure({ level: "none" });
+  const results = await checkRepository(rootPath, options);
+
+  const formatters: Record<OutputFormat, (r: FileDiagnostics[]) => string> = {
+    human: formatHuman,
+    json: formatJson,
+    sarif: formatSarif,
+  };
+  process.stdout.write(formatters[format](results));
+
+  const hasErrors = results.some(({ diagnostics }) =>
+    diagnostics.some(
+      (diagnostic) => diagnostic.severity === DiagnosticSeverity.Error,
+    ),
+  );
+  return hasErrors ? 1 : 0;
+}
+
+main(process.argv.slice(2))
+  .then((exitCode) => process.exit(exitCode))
+  .catch((error) => {
+    process.stderr.write(`${error}\n`);
+    process.exit(2);
+  });
@@ -0,0 +1,128 @@
+import * as Parser from "tree-sitter";
+import { Logger } from "../logger";
+import { DocumentSource } from "../utils/documentSource";
+import { DropPathFinder } from "./dropPathFinder";
+import { LiquidTreeCache } from "./liquidTreeCache";
+import { CustomDropInfo, CustomDropUsage, LiquidNodeTypes } from "./types";
+
+/**
+ * Matches database variables, e.g. custom.depreciation.passed
+ */
+const CUSTOM_DROP_PATTERN =
+  /custom\.([A-Za-z_][A-Za-z0-9_]*)\.([A-Za-z_][A-Za-z0-9_]*)/;
+
+export class CustomDropParser {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger("CustomDropParser");
+  }
+
+  /**
+   * Find all custom drops in a text. Drops may appear in any expression
+   * (output, filters, conditions, ...), they are read from the "custom" drops
+   * of the parsed tree.
+   * @param text File content
+   * @returns The drops found, in source order
+   */
+  public findAll(text: string): CustomDropInfo[] {
+    const tree = LiquidTreeCache.getInstance().parseText(text);
+    return tree ? this.findAllInTree(tree, text) : [];
+  }
+
+  /**
+   * Find all custom drops in a file, using its cached tree
+   * @param filePath The absolute path of the file
+   * @returns The drops found, in source order
+   * @throws If the file is not open and cannot be read from disk
+   */
+  public findAllInFile(filePath: string): CustomDropInfo[] {
+    const tree = LiquidTreeCache.getInstance().getTree(filePath);
+    const text = DocumentSource.getInstance().readFile(filePath);
+    return tree ? this.findAllInTree(tree, text) : [];
+  }
+
+  /**
+   * Identifies the custom drop at a specific position
+   * @param text - The source text to analyze
+   * @param line - Zero-based line number of the position to check
+   * @param column - Zero-based column number of the position to check
+   * @returns The drop under the position, or null if there is none
+   */
+  public identifyAtPosition(
+    text: string,
+    line: number,
+    column: number,
+  ): CustomDropInfo | null {
+    return (
+      this.findAll(text).find(
+        (drop) =>
+          drop.startPosition.row === line &&
+          column >= drop.startPosition.column &&
+          column <= drop.endPosition.column,
+      ) ?? null
+    );
+  }
+
+  private findAllInTree(tree: Parser.Tree, text: string): CustomDropInfo[] {
+    const lines = text.split("\n");
+    const drops = new DropPathFinder()
+      .findAll(tree, lines, "custom", CUSTOM_DROP_PATTERN)
+      .map(({ match, node, startPosition, endPosition }) => ({
+        namespace: match[1],
+        key: match[2],
+        usage: this.identifyUsage(node, startPosition, lines),
+        startPosition,
+        endPosition,
+      }));
+
+    this.logger.debug(`Found ${drops.length} custom drops`);
+    return drops;
+  }
+
+  /**
+   * Identifies how a drop is used from the tag it appears in. Only the first
+   * argument of {% input %} is written, other arguments (e.g. placeholders) are read.
+   * @param node The node the drop was found at
+   * @param position The start of the drop
+   *
+   * @example
+   * {% input custom.depreciation.passed as:currency %} -> input
+   * {% rollforward nil custom.depreciation.current %} -> rollforward
+   * {{ custom.depreciation.passed }} -> read
+   */
+  private identifyUsage(
+    node: Parser.SyntaxNode,
+    position: Parser.Point,
+    lines: string[],
+  ): CustomDropUsage {
+    let tagNode: Parser.SyntaxNode | null = node;
+    while (
+      tagNode &&
+      tagNode.type !== LiquidNodeTypes.CustomUnpairedStatement
+    ) {
+      tagNode = tagNode.parent;
+    }
+    const keywordNode = tagNode?.children.find(
+      (child) => child.type === "custom_keyword",
+    );
+    if (!keywordNode) {
+      return "read";
+    }
+
+    if (keywordNode.text === "rollforward") {
+      return "rollforward";
+    }
+    const textBeforeDrop =
+      keywordNode.endPosition.row === position.row
+        ? (lines[position.row] ?? "").substring(
+            keywordNode.endPosition.column,
+            position.column,
+          )
+        : null;
+    if (keywordNode.text === "input" && textBeforeDrop?.trim() === "") {
+      return "input";
+    }
+    return "read";
+  }
+}
@@ -0,0 +1,108 @@
+import * as Parser from "tree-sitter";
+import { LiquidNodeTypes, DropPathMatch } from "./types";
+
+export class DropPathFinder {
+  /**
+   * Finds the paths starting with a root drop in the Liquid code of a tree.
+   * Paths are matched on the source text at the identifiers of the root drop,
+   * so plain text, strings and comments are skipped.
+   * The arguments of Silverfin custom tags (e.g. {% input %}) are not parsed by
+   * tree-sitter-liquid yet, they are matched on the tag text outside its strings.
+   * @param lines The lines of the text the tree was parsed from
+   * @param rootDrop The first segment of the paths, e.g. "custom"
+   * @param pathPattern The pattern of a full path, starting with the root drop
+   * @returns The paths found, in source order
+   *
+   * @example
+   * finder.findAll(tree, lines, "custom", /custom\.(\w+)\.(\w+)/)
+   */
+  public findAll(
+    tree: Parser.Tree,
+    lines: string[],
+    rootDrop: string,
+    pathPattern: RegExp,
+  ): DropPathMatch[] {
+    const stickyPattern = new RegExp(pathPattern.source, "y");
+    const matches = new Map<string, DropPathMatch>();
+
+    const matchAt = (node: Parser.SyntaxNode, row: number, column: number) => {
+      stickyPattern.lastIndex = column;
+      const match = stickyPattern.exec(lines[row] ?? "");
+      if (match && !matches.has(`${row}:${column}`)) {
+        matches.set(`${row}:${column}`, {
+          match,
+          node,
+          startPosition: { row, column },
+          endPosition: { row, column: column + match[0].length },
+        });
+      }
+    };
+
+    for (const node of tree.rootNode.descendantsOfType([
+      "identifier",
+      LiquidNodeTypes.CustomUnpairedStatement,
+    ])) {
+      if (node.type === "identifier") {
+        if (node.text === rootDrop) {
+          matchAt(node, node.startPosition.row, node.startPosition.column);
+        }
+        continue;
+      }
+
+      for (const { row, column } of this.findInTagText(node, lines, rootDrop)) {
+        matchAt(node, row, column);
+      }
+    }
+
+    return Array.from(matches.values()).sort(
+      (a, b) =>
+        a.startPosition.row - b.startPosition.row ||
+        a.startPosition.column - b.startPosition.column,
+    );
+  }
+
+  /**
+   * Finds the positions of a root drop in the text of a custom tag, outside
+   * its strings
+   */
+  private findInTagText(
+    tagNode: Parser.SyntaxNode,
+    lines: string[],
+    rootDrop: string,
+  ): Parser.Point[] {
+    const rootPattern = new RegExp(`(?<![\\w.])${rootDrop}\\.`, "g");
+    const stringNodes = tagNode.descendantsOfType("string");
+    const isInString = (row: number, column: number) =>
+      stringNodes.some(
+        (stringNode) =>
+          this.comparePoints(stringNode.startPosition, { row, column }) <= 0 &&
+          this.comparePoints({ row, column }, stringNode.endPosition) < 0,
+      );
+
+    const positions: Parser.Point[] = [];
+    for (
+      let row = tagNode.startPosition.row;
+      row <= tagNode.endPosition.row;
+      row++
+    ) {
+      const lineText = lines[row] ?? "";
+      const start =
+        row === tagNode.startPosition.row ? tagNode.startPosition.column : 0;
+      const end =
+        row === tagNode.endPosition.row
+          ? tagNode.endPosition.column
+          : lineText.length;
+
+      for (const match of lineText.substring(0, end).matchAll(rootPattern)) {
+        if (match.index! >= start && !isInString(row, match.index!)) {
+          positions.push({ row, column: match.index! });
+        }
+      }
+    }
+    return positions;
+  }
+
+  private comparePoints(a: Parser.Point, b: Parser.Point): number {
+    return a.row - b.row || a.column - b.column;
+  }
+}
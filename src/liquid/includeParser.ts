@@ -2,18 +2,16 @@ import * as Parser from "tree-sitter";
 import * as LiquidTreeSitter from "tree-sitter-liquid";
 import { Logger } from "../logger";
 import { IncludeTagInfo } from "../liquid/types";
+import { LiquidTreeCache } from "./liquidTreeCache";
 
 export class IncludeParser {
-  private parser: Parser;
   private language: Parser.Language;
   private logger: Logger;
 
   constructor() {
     this.logger = new Logger("IncludeParser");
     try {
-      this.parser = new Parser();
       this.language = LiquidTreeSitter as Parser.Language;
-      this.parser.setLanguage(this.language);
     } catch (error) {
       this.logger.error(`Failed to initialize TranslationParser: ${error}`);
       throw error;
@@ -26,11 +24,22 @@ export class IncludeParser {
    * @returns Array of include tag information
    */
   public findAll(text: string): IncludeTagInfo[] {
-    const tree = this.parser.parse(text);
-    if (!tree) {
-      return [];
-    }
+    const tree = LiquidTreeCache.getInstance().parseText(text);
+    return tree ? this.findAllInTree(tree) : [];
+  }
+
+  /**
+   * Find all include tags in a file, using its cached tree
+   * @param filePath The absolute path of the file
+   * @returns Array of include tag information
+   * @throws If the file is not open and cannot be read from disk
+   */
+  public findAllInFile(filePath: string): IncludeTagInfo[] {
+    const tree = LiquidTreeCache.getInstance().getTree(filePath);
+    return tree ? this.findAllInTree(tree) : [];
+  }
 
+  private findAllInTree(tree: Parser.Tree): IncludeTagInfo[] {
     const includeTags: IncludeTagInfo[] = [];
 
     const queryString = `
@@ -102,6 +111,9 @@ export class IncludeParser {
       type,
       name,
       lineNumber,
+      path: includePath,
+      startPosition: stringNode.startPosition,
+      endPosition: stringNode.endPosition,
     };
   }
 
@@ -1,13 +1,15 @@
 import { Logger } from "../logger";
 import * as Parser from "tree-sitter";
 import { TreeSitterLiquidProvider } from "./treeSitterLiquidProvider";
-import * as fs from "fs";
 import { TemplatePartsCollectionManager } from "../templates/templatePartsCollectionManager";
-
-interface NodeInTemplate {
-  node: Parser.SyntaxNode;
-  templatePart: { fileFullPath: string };
-}
+import { NodeInTemplate, VariableDefinitionFields } from "./types";
+import { parseTemplateUri } from "../utils/templateUriParser";
+import { LiquidTagIdentifier } from "./liquidTagIdentifier";
+import { LiquidTreeCache } from "./liquidTreeCache";
+import { TemplateWorkspaceScanner } from "../templates/templateWorkspaceScanner";
+import { TemplateTypes } from "../templates/types";
+import { URI } from "vscode-uri";
+import * as path from "path";
 
 export class LiquidTagFinder {
   private logger = new Logger("LiquidTagFinder");
@@ -15,12 +17,382 @@ export class LiquidTagFinder {
 
   constructor() {}
 
+  /**
+   * Finds all nodes of the given types whose key matches, in every template part
+   * rendered before the current position.
+   * @param liquidKey The key to match, or null to return every node of the given types
+   */
   public async findAllNodesBeforePosition(
     textDocumentUri: string,
     currentRow: number,
-    liquidKey: string,
+    currentColumn: number,
+    liquidKey: string | null,
+    liquidTypes: string[],
+    workspaceRoot: string,
+  ): Promise<NodeInTemplate[] | null> {
+    return this.findInPartsBeforePosition(
+      textDocumentUri,
+      currentRow,
+      currentColumn,
+      workspaceRoot,
+      (tree) => this.findNodesInTree(tree, liquidKey, liquidTypes),
+    );
+  }
+
+  /**
+   * Finds all variable definitions (assign, capture, for) in every template part
+   * rendered before the current position.
+   * @param variableName The variable to match, or null to return every definition
+   */
+  public async findAllVariableDefinitionsBeforePosition(
+    textDocumentUri: string,
+    currentRow: number,
+    currentColumn: number,
+    variableName: string | null,
+    workspaceRoot: string,
+  ): Promise<NodeInTemplate[] | null> {
+    return this.findInPartsBeforePosition(
+      textDocumentUri,
+      currentRow,
+      currentColumn,
+      workspaceRoot,
+      (tree) => this.findVariableDefinitionsInTree(tree, variableName),
+    );
+  }
+
+  /**
+   * Finds all nodes of the given types in every part of the template the document
+   * belongs to, in the order they are rendered.
+   * A file included more than once yields its nodes once per inclusion.
+   * @param liquidTypes The node types to collect
+   * @returns The nodes in render order, or null if the template cannot be mapped
+   */
+  public async findAllNodesInTemplateOrder(
+    textDocumentUri: string,
+    liquidTypes: string[],
+    workspaceRoot: string,
+  ): Promise<NodeInTemplate[] | null> {
+    const templateUriInfo = parseTemplateUri(textDocumentUri);
+    if (!templateUriInfo) {
+      this.logger.warn(`Could not parse template URI: ${textDocumentUri}`);
+      return null;
+    }
+
+    return this.findAllNodesInTemplate(
+      templateUriInfo.templateType,
+      templateUriInfo.templateName,
+      liquidTypes,
+      workspaceRoot,
+    );
+  }
+
+  /**
+   * Finds all nodes of the given types in every part of a template, in the
+   * order they are rendered, e.g. to check a shared part within a template
+   * including it
+   * @param liquidTypes The node types to collect
+   * @returns The nodes in render order, or null if the template cannot be mapped
+   */
+  public async findAllNodesInTemplate(
+    templateType: TemplateTypes,
+    templateName: string,
     liquidTypes: string[],
     workspaceRoot: string,
+  ): Promise<NodeInTemplate[] | null> {
+    const templateManager =
+      TemplatePartsCollectionManager.getInstance(workspaceRoot);
+    const templateParts = await templateManager.getMap(
+      templateType,
+      templateName,
+    );
+    if (!templateParts) {
+      this.logger.warn(
+        `No template parts found for ${templateType} ${templateName}`,
+      );
+      return null;
+    }
+
+    const treesByFile = new Map<string, Parser.Tree | null>();
+    const orderedNodes: NodeInTemplate[] = [];
+
+    for (const part of templateParts) {
+      if (!treesByFile.has(part.fileFullPath)) {
+        try {
+          treesByFile.set(
+            part.fileFullPath,
+            LiquidTreeCache.getInstance().getTree(part.fileFullPath),
+          );
+        } catch (error) {
+          this.logger.warn(
+            `Could not read file: ${part.fileFullPath}, ${error}`,
+          );
+          treesByFile.set(part.fileFullPath, null);
+        }
+      }
+
+      const tree = treesByFile.get(part.fileFullPath);
+      if (!tree) {
+        continue;
+      }
+
+      tree.rootNode
+        .descendantsOfType(liquidTypes)
+        .filter(
+          (node) =>
+            node.startPosition.row >= part.startLine &&
+            node.startPosition.row <= part.endLine,
+        )
+        .sort((a, b) => a.startIndex - b.startIndex)
+        .forEach((node) => orderedNodes.push({ node, templatePart: part }));
+    }
+
+    return orderedNodes;
+  }
+
+  /**
+   * Lists the templates rendering a document: the template it belongs to and,
+   * for a shared part, every template including it
+   * @returns The templates, or null if the document is not part of a template
+   */
+  public findRenderingTemplates(
+    textDocumentUri: string,
+    workspaceRoot: string,
+  ): { templateType: TemplateTypes; templateName: string }[] | null {
+    const templateUriInfo = parseTemplateUri(textDocumentUri);
+    if (!templateUriInfo) {
+      this.logger.warn(`Could not parse template URI: ${textDocumentUri}`);
+      return null;
+    }
+
+    const templates = [
+      {
+        templateType: templateUriInfo.templateType,
+        templateName: templateUriInfo.templateName,
+      },
+    ];
+    if (templateUriInfo.templateType === "sharedPart") {
+      templates.push(
+        ...new TemplateWorkspaceScanner(
+          workspaceRoot,
+        ).findTemplatesRenderingSharedPart(templateUriInfo.templateName),
+      );
+    }
+    return templates;
+  }
+
+  /**
+   * Finds all nodes of the given types in every template rendering the document,
+   * one template after the other
+   * @returns The nodes in render order per template, or null if the document is
+   * not part of a template
+   */
+  private async findAllNodesInRenderingTemplates(
+    textDocumentUri: string,
+    liquidTypes: string[],
+    workspaceRoot: string,
+  ): Promise<NodeInTemplate[] | null> {
+    const templates = this.findRenderingTemplates(
+      textDocumentUri,
+      workspaceRoot,
+    );
+    if (!templates) {
+      return null;
+    }
+
+    const nodes: NodeInTemplate[] = [];
+    for (const template of templates) {
+      nodes.push(
+        ...((await this.findAllNodesInTemplate(
+          template.templateType,
+          template.templateName,
+          liquidTypes,
+          workspaceRoot,
+        )) ?? []),
+      );
+    }
+    return nodes;
+  }
+
+  /**
+   * Finds every occurrence of a variable in the template the document belongs to,
+   * across all its parts. From a shared part, the templates including it are
+   * searched too. Each occurrence is returned once, even when its file is
+   * included more than once.
+   * @param variableName The variable to look for
+   * @param includeDefinitions Whether assign, capture and for definitions are included
+   * @returns The identifier nodes in render order, or null if the template cannot be mapped
+   */
+  public async findAllVariableOccurrences(
+    textDocumentUri: string,
+    variableName: string,
+    includeDefinitions: boolean,
+    workspaceRoot: string,
+  ): Promise<NodeInTemplate[] | null> {
+    const identifierNodes = await this.findAllNodesInRenderingTemplates(
+      textDocumentUri,
+      ["identifier"],
+      workspaceRoot,
+    );
+    if (!identifierNodes) {
+      return null;
+    }
+
+    const identifier = new LiquidTagIdentifier();
+    return this.uniqueByLocation(
+      identifierNodes.filter(
+        ({ node }) =>
+          node.text === variableName &&
+          (identifier.isVariable(node) ||
+            (includeDefinitions && identifier.isVariableDefinition(node))),
+      ),
+    );
+  }
+
+  /**
+   * Finds the identifiers named like a variable that are neither a reference to
+   * it nor its definition, e.g. in a context isVariable does not recognize yet.
+   * Member names following a dot are not variables and are skipped.
+   * @param variableName The variable to look for
+   * @returns The identifier nodes in render order, or null if the template cannot be mapped
+   */
+  public async findUnresolvedVariableIdentifiers(
+    textDocumentUri: string,
+    variableName: string,
+    workspaceRoot: string,
+  ): Promise<NodeInTemplate[] | null> {
+    const identifierNodes = await this.findAllNodesInRenderingTemplates(
+      textDocumentUri,
+      ["identifier"],
+      workspaceRoot,
+    );
+    if (!identifierNodes) {
+      return null;
+    }
+
+    const identifier = new LiquidTagIdentifier();
+    return this.uniqueByLocation(
+      identifierNodes.filter(
+        ({ node }) =>
+          node.text === variableName &&
+          node.previousSibling?.type !== "." &&
+          !identifier.isVariable(node) &&
+          !identifier.isVariableDefinition(node),
+      ),
+    );
+  }
+
+  /**
+   * Finds every occurrence of a translation key in the template the document
+   * belongs to, across all its parts. From a shared part, the templates including
+   * it are searched too. Each occurrence is returned once, even when its file is
+   * included more than once.
+   * @param translationKey The translation key to look for
+   * @param includeDefinitions Whether {% t= %} definitions are included
+   * @returns The key string nodes in render order, or null if the template cannot be mapped
+   */
+  public async findAllTranslationKeyOccurrences(
+    textDocumentUri: string,
+    translationKey: string,
+    includeDefinitions: boolean,
+    workspaceRoot: string,
+  ): Promise<NodeInTemplate[] | null> {
+    const liquidTypes = includeDefinitions
+      ? ["translation_expression", "translation_statement"]
+      : ["translation_expression"];
+    const translationNodes = await this.findAllNodesInRenderingTemplates(
+      textDocumentUri,
+      liquidTypes,
+      workspaceRoot,
+    );
+    if (!translationNodes) {
+      return null;
+    }
+
+    const keyNodes: NodeInTemplate[] = [];
+    for (const { node, templatePart } of translationNodes) {
+      const keyNode = node.childForFieldName("key");
+      if (
+        keyNode &&
+        keyNode.type === "string" &&
+        this.extractKey(keyNode) === translationKey
+      ) {
+        keyNodes.push({ node: keyNode, templatePart });
+      }
+    }
+
+    return this.uniqueByLocation(keyNodes);
+  }
+
+  /**
+   * Finds the {% result %} tags defining a result in a reconciliation text,
+   * across all its parts
+   * @param handle The handle of the reconciliation text
+   * @param resultName The name of the result
+   * @returns The result_statement nodes in render order, or null if the
+   * reconciliation text cannot be found
+   */
+  public async findResultDefinitions(
+    handle: string,
+    resultName: string,
+    workspaceRoot: string,
+  ): Promise<NodeInTemplate[] | null> {
+    const templateDir = new TemplateWorkspaceScanner(
+      workspaceRoot,
+    ).findReconciliationDirectory(handle);
+    if (!templateDir) {
+      this.logger.debug(`Reconciliation text not found for handle: ${handle}`);
+      return null;
+    }
+
+    const resultNodes = await this.findAllNodesInTemplateOrder(
+      URI.file(path.join(templateDir, "main.liquid")).toString(),
+      ["result_statement"],
+      workspaceRoot,
+    );
+    if (!resultNodes) {
+      return null;
+    }
+
+    const identifier = new LiquidTagIdentifier();
+    return this.uniqueByLocation(
+      resultNodes.filter(
+        ({ node }) => identifier.identifyResultName(node) === resultName,
+      ),
+    );
+  }
+
+  /**
+   * Returns the name of the variable defined by an assign, capture or for statement
+   * @param definitionNode The defining statement node
+   * @returns The variable name, or null if the node does not define a variable
+   */
+  public getDefinedVariableName(
+    definitionNode: Parser.SyntaxNode,
+  ): string | null {
+    if (!(definitionNode.type in VariableDefinitionFields)) {
+      return null;
+    }
+    const field =
+      VariableDefinitionFields[
+        definitionNode.type as keyof typeof VariableDefinitionFields
+      ];
+    const nameNode = definitionNode.childForFieldName(field);
+    return nameNode ? nameNode.text : null;
+  }
+
+  /**
+   * Walks the template parts in render order up to the current position
+   * (zero-based row and column) and collects the nodes returned by the search
+   * function for each part, sorted by their position in the file.
+   * The search runs once per file, even when the file is included more than once.
+   * @param searchInTree Returns the candidate nodes found in a file's tree
+   */
+  private async findInPartsBeforePosition(
+    textDocumentUri: string,
+    currentRow: number,
+    currentColumn: number,
+    workspaceRoot: string,
+    searchInTree: (tree: Parser.Tree) => Parser.SyntaxNode[],
   ): Promise<NodeInTemplate[] | null> {
     const templateManager =
       TemplatePartsCollectionManager.getInstance(workspaceRoot);
@@ -43,13 +415,22 @@ export class LiquidTagFinder {
     this.logger.info("Parts identified: " + templateParts.length);
 
     const matchingNodes: NodeInTemplate[] = [];
+    const nodesByFile = new Map<string, Parser.SyntaxNode[]>();
 
     for (let i = 0; i <= currentFileIndex; i++) {
       const part = templateParts[i];
 
       try {
-        const fileContent = fs.readFileSync(part.fileFullPath, "utf8");
-        const nodes = this.findNodesInText(fileContent, liquidKey, liquidTypes);
+        if (!nodesByFile.has(part.fileFullPath)) {
+          const tree = LiquidTreeCache.getInstance().getTree(part.fileFullPath);
+          nodesByFile.set(
+            part.fileFullPath,
+            tree
+              ? searchInTree(tree).sort((a, b) => a.startIndex - b.startIndex)
+              : [],
+          );
+        }
+        const nodes = nodesByFile.get(part.fileFullPath)!;
 
         // Filter nodes that are within this part's line range
         const nodesInRange = nodes.filter(
@@ -60,7 +441,7 @@ export class LiquidTagFinder {
 
         if (i === currentFileIndex) {
           for (const node of nodesInRange) {
-            if (node.startPosition.row < currentRow) {
+            if (this.isBeforePosition(node, currentRow, currentColumn)) {
               matchingNodes.push({ node, templatePart: part });
             }
           }
@@ -77,16 +458,34 @@ export class LiquidTagFinder {
     return matchingNodes;
   }
 
-  private findNodesInText(
-    text: string,
-    liquidKey: string,
-    liquidTypes: string[],
-  ): Parser.SyntaxNode[] {
-    const tree = this.parser.parseTree(text);
-    if (!tree) {
-      return [];
+  /**
+   * Checks if a node is complete before a position, e.g. an assign earlier on
+   * the same line. A for loop also applies to the position once its item is
+   * declared, as the item is used inside the loop body.
+   */
+  private isBeforePosition(
+    node: Parser.SyntaxNode,
+    row: number,
+    column: number,
+  ): boolean {
+    const isBefore = (position: Parser.Point) =>
+      position.row < row || (position.row === row && position.column <= column);
+
+    if (isBefore(node.endPosition)) {
+      return true;
     }
+    const itemNode =
+      node.type === "for_loop_statement"
+        ? node.childForFieldName(VariableDefinitionFields.for_loop_statement)
+        : null;
+    return itemNode !== null && isBefore(itemNode.endPosition);
+  }
 
+  private findNodesInTree(
+    tree: Parser.Tree,
+    liquidKey: string | null,
+    liquidTypes: string[],
+  ): Parser.SyntaxNode[] {
     const keyKey = "key";
     const matchingNodes: Parser.SyntaxNode[] = [];
 
@@ -109,7 +508,7 @@ export class LiquidTagFinder {
           for (const capture of match.captures) {
             if (capture.name === "key") {
               const captureKey = this.extractKey(capture.node);
-              if (captureKey === liquidKey) {
+              if (liquidKey === null || captureKey === liquidKey) {
                 let parent = capture.node.parent;
                 while (parent && parent.type !== liquidType) {
                   parent = parent.parent;
@@ -131,98 +530,34 @@ export class LiquidTagFinder {
     return matchingNodes;
   }
 
+  private uniqueByLocation(nodes: NodeInTemplate[]): NodeInTemplate[] {
+    const seen = new Set<string>();
+    return nodes.filter(({ node, templatePart }) => {
+      const location = `${templatePart.fileFullPath}:${node.startIndex}`;
+      if (seen.has(location)) {
+        return false;
+      }
+      seen.add(location);
+      return true;
+    });
+  }
+
   private extractKey(stringNode: Parser.SyntaxNode): string {
     const text = stringNode.text;
     return text.replace(/^['"]|['"]$/g, "");
   }
 
-  public async findAllVariableDefinitionsBeforePosition(
-    textDocumentUri: string,
-    currentRow: number,
-    variableName: string,
-    workspaceRoot: string,
-  ): Promise<NodeInTemplate[] | null> {
-    const templateManager =
-      TemplatePartsCollectionManager.getInstance(workspaceRoot);
-    const templateDetails = await templateManager.getMapAndIndexFromUri(
-      textDocumentUri,
-      currentRow,
-    );
-
-    if (!templateDetails) {
-      this.logger.warn(`No template parts found for URI: ${textDocumentUri}`);
-      return null;
-    }
-    const { templateParts, currentFileIndex } = templateDetails;
-
-    if (!templateParts || currentFileIndex === -1) {
-      this.logger.warn(`No template parts found for URI: ${textDocumentUri}`);
-      return null;
-    }
-
-    this.logger.info("Parts identified: " + templateParts.length);
-
-    const matchingNodes: NodeInTemplate[] = [];
-
-    for (let i = 0; i <= currentFileIndex; i++) {
-      const part = templateParts[i];
-
-      try {
-        const fileContent = fs.readFileSync(part.fileFullPath, "utf8");
-        const nodes = this.findVariableDefinitionsInText(
-          fileContent,
-          variableName,
-        );
-
-        // Filter nodes that are within this part's line range
-        const nodesInRange = nodes.filter(
-          (node) =>
-            node.startPosition.row >= part.startLine &&
-            node.endPosition.row <= part.endLine,
-        );
-
-        if (i === currentFileIndex) {
-          for (const node of nodesInRange) {
-            if (node.startPosition.row < currentRow) {
-              matchingNodes.push({ node, templatePart: part });
-            }
-          }
-        } else {
-          nodesInRange.forEach((node) =>
-            matchingNodes.push({ node, templatePart: part }),
-          );
-        }
-      } catch (error) {
-        this.logger.warn(`Could not read file: ${part.fileFullPath}, ${error}`);
-      }
-    }
-
-    return matchingNodes;
-  }
-
-  private findVariableDefinitionsInText(
-    text: string,
-    variableName: string,
+  private findVariableDefinitionsInTree(
+    tree: Parser.Tree,
+    variableName: string | null,
   ): Parser.SyntaxNode[] {
-    const tree = this.parser.parseTree(text);
-    if (!tree) {
-      return [];
-    }
-
     const matchingNodes: Parser.SyntaxNode[] = [];
 
-    // Define the different statement types and their field names
-    const statementConfigs = [
-      { type: "assignment_statement", field: "variable_name" },
-      { type: "capture_statement", field: "variable" },
-      { type: "for_loop_statement", field: "item" },
-    ];
-
     try {
-      for (const config of statementConfigs) {
+      for (const [type, field] of Object.entries(VariableDefinitionFields)) {
         // Query for each statement type with its specific field
-        const queryString = `(${config.type}
-          ${config.field}: (identifier) @var_name
+        const queryString = `(${type}
+          ${field}: (identifier) @var_name
         )`;
 
         const matches = this.parser.queryTree(queryString, tree);
@@ -231,9 +566,9 @@ export class LiquidTagFinder {
           for (const capture of match.captures) {
             if (capture.name === "var_name") {
               const capturedName = capture.node.text;
-              if (capturedName === variableName) {
+              if (variableName === null || capturedName === variableName) {
                 let parent = capture.node.parent;
-                while (parent && parent.type !== config.type) {
+                while (parent && parent.type !== type) {
                   parent = parent.parent;
                 }
                 if (parent) {
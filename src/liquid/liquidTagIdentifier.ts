@@ -1,11 +1,13 @@
 import { Logger } from "../logger";
 import * as Parser from "tree-sitter";
-import { TreeSitterLiquidProvider } from "./treeSitterLiquidProvider";
+import { LiquidTreeCache } from "./liquidTreeCache";
 import {
   LiquidNodeType,
   LiquidNodeTypes,
   LiquidNodeTagNames,
   LiquidTagName,
+  LiquidCompletionContext,
+  VariableDefinitionFields,
 } from "./types";
 
 /**
@@ -14,7 +16,6 @@ import {
  */
 export class LiquidTagIdentifier {
   private logger = new Logger("LiquidTagIdentifier");
-  private parser = new TreeSitterLiquidProvider();
 
   constructor() {}
 
@@ -33,7 +34,7 @@ export class LiquidTagIdentifier {
     column: number,
   ): Parser.SyntaxNode | null {
     try {
-      const tree = this.parser.parseTree(text);
+      const tree = LiquidTreeCache.getInstance().parseText(text);
       if (!tree) {
         this.logger.warn("Failed to parse text");
         return null;
@@ -89,6 +90,31 @@ export class LiquidTagIdentifier {
     return isVar ? liquidNode : null;
   }
 
+  /**
+   * Identifies a variable at a specific position, either a reference
+   * (see identifyVariable) or the name being defined by an assign, capture or for.
+   *
+   * @param text - The source text to analyze
+   * @param line - Zero-based line number of the position to check
+   * @param column - Zero-based column number of the position to check
+   * @returns The identifier SyntaxNode if found, or null
+   */
+  public identifyVariableOrDefinition(
+    text: string,
+    line: number,
+    column: number,
+  ): Parser.SyntaxNode | null {
+    const liquidNode = this.isIdentifier(text, line, column);
+    if (!liquidNode) {
+      this.logger.debug("No identifier node found at position");
+      return null;
+    }
+
+    return this.isVariable(liquidNode) || this.isVariableDefinition(liquidNode)
+      ? liquidNode
+      : null;
+  }
+
   /**
    * Identifies the Liquid tag name at a specific position in the text.
    * Returns the tag name if the cursor is positioned on a tag identifier.
@@ -148,6 +174,106 @@ export class LiquidTagIdentifier {
     return null;
   }
 
+  /**
+   * Extracts the result name from a result_statement node.
+   * {% result "name" content %} -> name
+   *
+   * @param liquidNode - The result_statement node
+   * @returns The result name, or null if it is not a string literal
+   */
+  public identifyResultName(liquidNode: Parser.SyntaxNode): string | null {
+    if (liquidNode.type !== "result_statement") {
+      return null;
+    }
+    const nameNode =
+      liquidNode.childForFieldName("key") ??
+      liquidNode.namedChildren.find((child) => child.type === "string");
+    if (nameNode && nameNode.type === "string") {
+      return nameNode.text.replace(/^['"]|['"]$/g, "");
+    }
+    return null;
+  }
+
+  /**
+   * Identifies what kind of completion is expected at a specific position.
+   * Text being typed is usually incomplete and does not parse into valid nodes,
+   * so the context is derived from the text preceding the cursor:
+   * - {% ass| - tag name
+   * - {% t "tit| - translation key
+   * - {% include "parts/pa| - include path
+   * - {{ custom.| or {{ custom.namespace.k| - custom drop
+   * - {{ my_v| or {% assign x = my_v| - variable
+   *
+   * @param text - The source text to analyze
+   * @param line - Zero-based line number of the cursor
+   * @param column - Zero-based column number of the cursor
+   * @returns The completion context, or null if the cursor is outside a Liquid tag
+   */
+  public identifyCompletionContext(
+    text: string,
+    line: number,
+    column: number,
+  ): LiquidCompletionContext | null {
+    const lines = text.split("\n");
+    if (line >= lines.length) {
+      return null;
+    }
+    const textBeforeCursor = lines
+      .slice(0, line)
+      .concat(lines[line].substring(0, column))
+      .join("\n");
+
+    const lastOpen = Math.max(
+      textBeforeCursor.lastIndexOf("{%"),
+      textBeforeCursor.lastIndexOf("{{"),
+    );
+    const lastClose = Math.max(
+      textBeforeCursor.lastIndexOf("%}"),
+      textBeforeCursor.lastIndexOf("}}"),
+    );
+    if (lastOpen === -1 || lastClose > lastOpen) {
+      this.logger.debug("Cursor is not inside a Liquid tag");
+      return null;
+    }
+
+    const tagContent = textBeforeCursor.substring(lastOpen);
+
+    const translationMatch = tagContent.match(/^\{%-?\s*t\s+["']([^"'\n]*)$/);
+    if (translationMatch) {
+      return { kind: "translationKey", prefix: translationMatch[1] };
+    }
+
+    const includeMatch = tagContent.match(/^\{%-?\s*include\s+["']([^"'\n]*)$/);
+    if (includeMatch) {
+      return { kind: "includePath", prefix: includeMatch[1] };
+    }
+
+    const tagNameMatch = tagContent.match(/^\{%-?\s*([\w=]*)$/);
+    if (tagNameMatch) {
+      return { kind: "tagName", prefix: tagNameMatch[1] };
+    }
+
+    // Inside a string literal there is nothing to complete
+    const quotes = tagContent.match(/["']/g);
+    if (quotes && quotes.length % 2 !== 0) {
+      return null;
+    }
+
+    const customDropMatch = tagContent.match(
+      /(?:^\{\{-?|[\s[(=:,|<>!+])custom\.(\w*(?:\.\w*)?)$/,
+    );
+    if (customDropMatch) {
+      return { kind: "customDrop", prefix: customDropMatch[1] };
+    }
+
+    const variableMatch = tagContent.match(/(?:^\{\{-?|[\s[(=:,|<>!])(\w*)$/);
+    if (variableMatch) {
+      return { kind: "variable", prefix: variableMatch[1] };
+    }
+
+    return null;
+  }
+
   private isValidNodeType(type: string): type is LiquidNodeType {
     return Object.values(LiquidNodeTypes).includes(type as LiquidNodeType);
   }
@@ -171,7 +297,7 @@ export class LiquidTagIdentifier {
     column: number,
   ): Parser.SyntaxNode | null {
     try {
-      const tree = this.parser.parseTree(text);
+      const tree = LiquidTreeCache.getInstance().parseText(text);
       if (!tree) {
         this.logger.warn("Failed to parse text");
         return null;
@@ -197,7 +323,39 @@ export class LiquidTagIdentifier {
     }
   }
 
-  private isVariable(liquidNode: Parser.SyntaxNode): boolean {
+  /**
+   * Checks if an identifier node is the name being defined by an assign,
+   * capture or for statement.
+   *
+   * @param liquidNode - The identifier node to check
+   * @returns True if the identifier is a variable definition
+   */
+  public isVariableDefinition(liquidNode: Parser.SyntaxNode): boolean {
+    const parent = liquidNode.parent;
+    if (
+      liquidNode.type !== "identifier" ||
+      !parent ||
+      !(parent.type in VariableDefinitionFields)
+    ) {
+      return false;
+    }
+
+    const field =
+      VariableDefinitionFields[
+        parent.type as keyof typeof VariableDefinitionFields
+      ];
+    const nameNode = parent.childForFieldName(field);
+    return nameNode !== null && nameNode.startIndex === liquidNode.startIndex;
+  }
+
+  /**
+   * Checks if an identifier node is a variable reference, based on the field
+   * it occupies in its parent node (see identifyVariable).
+   *
+   * @param liquidNode - The identifier node to check
+   * @returns True if the identifier is a variable reference
+   */
+  public isVariable(liquidNode: Parser.SyntaxNode): boolean {
     this.logger.debug(
       `Checking if node is variable reference: type=${liquidNode.type}, text=${liquidNode.text}`,
     );
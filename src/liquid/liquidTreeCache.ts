@@ -0,0 +1,230 @@
+import { Logger } from "../logger";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as Parser from "tree-sitter";
+import { TextDocumentContentChangeEvent } from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { TreeSitterLiquidProvider } from "./treeSitterLiquidProvider";
+import { DocumentSource } from "../utils/documentSource";
+
+interface CachedTree {
+  tree: Parser.Tree;
+  text: string; // the text the tree describes, including edits not parsed yet
+  hash: string; // hash of the text, to find the tree by content
+  edited: boolean; // true once edits were applied and the tree awaits a reparse
+  version: number | null; // version of the open document, null for files read from disk
+  mtimeMs: number | null; // modification time of a file read from disk, null otherwise
+}
+
+// Trees kept at most. The least recently used trees of files read from disk
+// are evicted first, trees of open documents are never evicted.
+const MAX_CACHED_TREES = 500;
+
+/**
+ * Singleton class that keeps the parsed tree of every file, keyed by path and
+ * document version, or modification time for files read from disk.
+ * Changes to open documents are applied to their tree with Tree.edit, so the
+ * next parse reuses the unchanged parts of the old tree.
+ *
+ * @example
+ * const tree = LiquidTreeCache.getInstance().getTree(filePath);
+ */
+export class LiquidTreeCache {
+  private static instance: LiquidTreeCache | null = null;
+  private logger: Logger = new Logger("LiquidTreeCache");
+  private parser = new TreeSitterLiquidProvider();
+  private trees: Map<string, CachedTree> = new Map(); // in least recently used order
+  private pathsByHash: Map<string, string> = new Map();
+
+  private constructor() {}
+
+  /**
+   * Gets the singleton instance of LiquidTreeCache
+   * @returns The singleton instance
+   */
+  public static getInstance(): LiquidTreeCache {
+    if (!LiquidTreeCache.instance) {
+      LiquidTreeCache.instance = new LiquidTreeCache();
+    }
+    return LiquidTreeCache.instance;
+  }
+
+  /**
+   * Gets the tree of a file, parsing it only when its content changed.
+   * Open documents are read from the editor, other files from disk.
+   * @param filePath The absolute path of the file
+   * @returns The parsed tree, or null if parsing failed
+   * @throws If the file is not open and cannot be read from disk
+   */
+  public getTree(filePath: string): Parser.Tree | null {
+    const openDocument = DocumentSource.getInstance().getOpenDocument(filePath);
+    const mtimeMs = openDocument ? null : fs.statSync(filePath).mtimeMs;
+    const cached = this.trees.get(filePath);
+
+    if (
+      cached &&
+      !cached.edited &&
+      (openDocument
+        ? cached.version === openDocument.version
+        : cached.version === null && cached.mtimeMs === mtimeMs)
+    ) {
+      this.store(filePath, cached);
+      return cached.tree;
+    }
+
+    const text = DocumentSource.getInstance().readFile(filePath);
+    if (cached && !cached.edited && cached.text === text) {
+      cached.version = openDocument?.version ?? null;
+      cached.mtimeMs = mtimeMs;
+      this.store(filePath, cached);
+      return cached.tree;
+    }
+
+    // Only a tree edited up to the new text can be reused for the reparse
+    const oldTree =
+      cached && cached.edited && cached.text === text ? cached.tree : undefined;
+    const tree = this.parser.parseTree(text, oldTree);
+    if (!tree) {
+      this.delete(filePath);
+      return null;
+    }
+
+    this.logger.debug(
+      `${oldTree ? "Reparsed" : "Parsed"} ${filePath} (version ${openDocument?.version ?? "disk"})`,
+    );
+    this.store(filePath, {
+      tree,
+      text,
+      hash: this.hashText(text),
+      edited: false,
+      version: openDocument?.version ?? null,
+      mtimeMs,
+    });
+    return tree;
+  }
+
+  /**
+   * Gets the tree of a text that is not tied to a file.
+   * Reuses the tree of a cached file with the same content when there is one.
+   * @param text The Liquid text
+   * @returns The parsed tree, or null if parsing failed
+   */
+  public parseText(text: string): Parser.Tree | null {
+    const hash = this.hashText(text);
+    const filePath = this.pathsByHash.get(hash);
+    const cached = filePath ? this.trees.get(filePath) : undefined;
+    if (
+      cached &&
+      !cached.edited &&
+      cached.hash === hash &&
+      cached.text === text
+    ) {
+      return cached.tree;
+    }
+    return this.parser.parseTree(text);
+  }
+
+  /**
+   * Applies the changes of an open document to its cached tree.
+   * Must be called before the changes are applied to the document, as their
+   * ranges refer to its current content.
+   * @param document The document before the changes
+   * @param changes The changes, in the order they are applied
+   */
+  public applyChanges(
+    document: TextDocument,
+    changes: TextDocumentContentChangeEvent[],
+  ): void {
+    const filePath = URI.parse(document.uri).fsPath;
+    const cached = this.trees.get(filePath);
+    if (!cached || cached.text !== document.getText()) {
+      this.delete(filePath);
+      return;
+    }
+
+    // Each change refers to the content left by the previous one
+    let current = TextDocument.create(
+      document.uri,
+      document.languageId,
+      document.version,
+      document.getText(),
+    );
+
+    for (const change of changes) {
+      if (!("range" in change)) {
+        // Full content replacement, nothing of the old tree can be reused
+        this.delete(filePath);
+        return;
+      }
+
+      const startIndex = current.offsetAt(change.range.start);
+      const oldEndIndex = current.offsetAt(change.range.end);
+      const insertedLines = change.text.split("\n");
+      const lastInsertedLine = insertedLines[insertedLines.length - 1];
+
+      cached.tree.edit({
+        startIndex,
+        oldEndIndex,
+        newEndIndex: startIndex + change.text.length,
+        startPosition: {
+          row: change.range.start.line,
+          column: change.range.start.character,
+        },
+        oldEndPosition: {
+          row: change.range.end.line,
+          column: change.range.end.character,
+        },
+        newEndPosition: {
+          row: change.range.start.line + insertedLines.length - 1,
+          column:
+            insertedLines.length === 1
+              ? change.range.start.character + lastInsertedLine.length
+              : lastInsertedLine.length,
+        },
+      });
+
+      current = TextDocument.update(current, [change], current.version + 1);
+    }
+
+    cached.text = current.getText();
+    cached.edited = true;
+    cached.version = null;
+    cached.mtimeMs = null;
+  }
+
+  /**
+   * Drops the cached tree of a file
+   * @param filePath The absolute path of the file
+   */
+  public delete(filePath: string): void {
+    const cached = this.trees.get(filePath);
+    if (cached && this.pathsByHash.get(cached.hash) === filePath) {
+      this.pathsByHash.delete(cached.hash);
+    }
+    this.trees.delete(filePath);
+  }
+
+  /**
+   * Stores a tree as the most recently used one, and evicts the least recently
+   * used trees of files read from disk beyond MAX_CACHED_TREES
+   */
+  private store(filePath: string, cached: CachedTree): void {
+    this.trees.delete(filePath);
+    this.trees.set(filePath, cached);
+    this.pathsByHash.set(cached.hash, filePath);
+
+    for (const [cachedPath, entry] of this.trees) {
+      if (this.trees.size <= MAX_CACHED_TREES) {
+        break;
+      }
+      if (entry.mtimeMs !== null) {
+        this.delete(cachedPath);
+      }
+    }
+  }
+
+  private hashText(text: string): string {
+    return crypto.createHash("sha1").update(text).digest("hex");
+  }
+}
@@ -0,0 +1,84 @@
+import * as Parser from "tree-sitter";
+import { Logger } from "../logger";
+import { DocumentSource } from "../utils/documentSource";
+import { DropPathFinder } from "./dropPathFinder";
+import { LiquidTreeCache } from "./liquidTreeCache";
+import { ResultReferenceInfo } from "./types";
+
+/**
+ * Matches lookups of another reconciliation's results, e.g.
+ * period.reconciliations.balance_check.results.total
+ */
+const RESULT_REFERENCE_PATTERN =
+  /period\.reconciliations\.([A-Za-z0-9_-]+)\.results\.([A-Za-z0-9_]+)/;
+
+export class ResultReferenceParser {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger("ResultReferenceParser");
+  }
+
+  /**
+   * Find all result lookups in a text. Lookups may appear in any expression
+   * (output, filters, conditions, ...), they are read from the "period" drops
+   * of the parsed tree.
+   * @param text File content
+   * @returns The lookups found, in source order
+   */
+  public findAll(text: string): ResultReferenceInfo[] {
+    const tree = LiquidTreeCache.getInstance().parseText(text);
+    return tree ? this.findAllInTree(tree, text) : [];
+  }
+
+  /**
+   * Find all result lookups in a file, using its cached tree
+   * @param filePath The absolute path of the file
+   * @returns The lookups found, in source order
+   * @throws If the file is not open and cannot be read from disk
+   */
+  public findAllInFile(filePath: string): ResultReferenceInfo[] {
+    const tree = LiquidTreeCache.getInstance().getTree(filePath);
+    const text = DocumentSource.getInstance().readFile(filePath);
+    return tree ? this.findAllInTree(tree, text) : [];
+  }
+
+  /**
+   * Identifies the result lookup at a specific position
+   * @param text - The source text to analyze
+   * @param line - Zero-based line number of the position to check
+   * @param column - Zero-based column number of the position to check
+   * @returns The lookup under the position, or null if there is none
+   */
+  public identifyAtPosition(
+    text: string,
+    line: number,
+    column: number,
+  ): ResultReferenceInfo | null {
+    return (
+      this.findAll(text).find(
+        (reference) =>
+          reference.startPosition.row === line &&
+          column >= reference.startPosition.column &&
+          column <= reference.endPosition.column,
+      ) ?? null
+    );
+  }
+
+  private findAllInTree(
+    tree: Parser.Tree,
+    text: string,
+  ): ResultReferenceInfo[] {
+    const references = new DropPathFinder()
+      .findAll(tree, text.split("\n"), "period", RESULT_REFERENCE_PATTERN)
+      .map(({ match, startPosition, endPosition }) => ({
+        handle: match[1],
+        resultName: match[2],
+        startPosition,
+        endPosition,
+      }));
+
+    this.logger.debug(`Found ${references.length} result lookups`);
+    return references;
+  }
+}
@@ -17,11 +17,15 @@ export class TreeSitterLiquidProvider {
     }
   }
 
-  public parseTree(text: string): Parser.Tree | null {
+  /**
+   * @param oldTree A previous tree of the text, already edited to match it,
+   * whose unchanged parts are reused
+   */
+  public parseTree(text: string, oldTree?: Parser.Tree): Parser.Tree | null {
     if (!this.isInitialized) {
       return null;
     }
-    return this.parser.parse(text);
+    return this.parser.parse(text, oldTree);
   }
 
   public queryTree(
@@ -1,3 +1,6 @@
+import * as Parser from "tree-sitter";
+import { TemplatePart } from "../templates/types";
+
 export const LiquidNodeTypes = {
   TranslationExpression: "translation_expression",
   TranslationStatement: "translation_statement",
@@ -26,6 +29,125 @@ export const LiquidNodeTagNames = {
 export type LiquidTagName =
   (typeof LiquidNodeTagNames)[keyof typeof LiquidNodeTagNames];
 
+/**
+ * Statements that define a variable, mapped to the field holding its name
+ */
+export const VariableDefinitionFields = {
+  assignment_statement: "variable_name",
+  capture_statement: "variable",
+  for_loop_statement: "item",
+} as const;
+
+/**
+ * Blocks whose body is only rendered under a condition
+ */
+export const ConditionalNodeTypes = [
+  "if_statement",
+  "unless_statement",
+  "case_statement",
+] as const;
+
+/**
+ * Variables provided by Silverfin (drops and loop objects) or Liquid literals,
+ * which never need to be defined by the template
+ */
+export const SilverfinGlobalVariables = [
+  "period",
+  "company",
+  "custom",
+  "user",
+  "forloop",
+  "tablerowloop",
+  "current_account",
+  "account",
+  "reconciliation",
+  "ledger",
+  "bookyear",
+  "locale",
+  "nil",
+  "blank",
+  "empty",
+  "true",
+  "false",
+  "INF",
+] as const;
+
+/**
+ * Tag names offered as completions after `{%`
+ */
+export const LiquidCompletionTags = [
+  "assign",
+  "capture",
+  "if",
+  "elsif",
+  "else",
+  "unless",
+  "case",
+  "when",
+  "for",
+  "break",
+  "continue",
+  "comment",
+  "include",
+  "t",
+  "t=",
+  "result",
+  "push",
+  "pop",
+  "input",
+  "rollforward",
+  "unreconciled",
+  "locale",
+  "stripnewlines",
+  "ifi",
+  "linkto",
+  "newpage",
+  "adjustmentbutton",
+  "radiogroup",
+  "radioinput",
+  "currencyconfiguration",
+] as const;
+
+/**
+ * Kind of completion expected at the cursor position
+ */
+export type LiquidCompletionContextKind =
+  | "tagName"
+  | "variable"
+  | "translationKey"
+  | "includePath"
+  | "customDrop";
+
+export interface LiquidCompletionContext {
+  kind: LiquidCompletionContextKind;
+  prefix: string;
+}
+
+/**
+ * How a custom drop is used: written by {% input %}, copied by {% rollforward %}
+ * or read in any other expression
+ */
+export type CustomDropUsage = "input" | "rollforward" | "read";
+
+/**
+ * A "custom.<namespace>.<key>" database variable found in the document
+ */
+export interface CustomDropInfo {
+  namespace: string;
+  key: string;
+  usage: CustomDropUsage;
+  startPosition: Parser.Point; // start of the drop path
+  endPosition: Parser.Point; // end of the drop path
+}
+
+/**
+ * A syntax node together with the template part it was found in
+ */
+export interface NodeInTemplate {
+  node: Parser.SyntaxNode;
+  templatePart: TemplatePart;
+}
+
 /**
  * Information about an include tag found in the document
  */
@@ -33,4 +155,27 @@ export interface IncludeTagInfo {
   type: "textPart" | "sharedPart";
   name: string;
   lineNumber: number;
+  path: string; // include path as written, e.g. "parts/part_1"
+  startPosition: Parser.Point; // start of the include string, quotes included
+  endPosition: Parser.Point; // end of the include string, quotes included
+}
+
+/**
+ * A "period.reconciliations.<handle>.results.<name>" lookup found in the document
+ */
+export interface ResultReferenceInfo {
+  handle: string; // handle of the reconciliation text defining the result
+  resultName: string;
+  startPosition: Parser.Point; // start of the lookup path
+  endPosition: Parser.Point; // end of the lookup path
+}
+
+/**
+ * A drop path matched in the Liquid code of a tree, e.g. "custom.depreciation.passed"
+ */
+export interface DropPathMatch {
+  match: RegExpExecArray; // the path pattern match, with its capture groups
+  node: Parser.SyntaxNode; // the root drop identifier, or the custom tag the path appears in
+  startPosition: Parser.Point; // start of the drop path
+  endPosition: Parser.Point; // end of the drop path
 }
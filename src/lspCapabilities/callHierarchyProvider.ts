@@ -0,0 +1,219 @@
+import { Logger } from "../logger";
+import {
+  CallHierarchyIncomingCall,
+  CallHierarchyItem,
+  CallHierarchyOutgoingCall,
+  CallHierarchyPrepareParams,
+  Range,
+  SymbolKind,
+} from "vscode-languageserver/node";
+import { URI } from "vscode-uri";
+import * as path from "path";
+import { LiquidTagIdentifier } from "../liquid/liquidTagIdentifier";
+import { IncludeParser } from "../liquid/includeParser";
+import { IncludeTagInfo } from "../liquid/types";
+import { parseTemplateUri } from "../utils/templateUriParser";
+import { DocumentSource } from "../utils/documentSource";
+import { TemplatePartsMapper } from "../templates/templatePartsMapper";
+import { TemplateWorkspaceScanner } from "../templates/templateWorkspaceScanner";
+
+/**
+ * Exposes the include hierarchy through call hierarchy requests: every template
+ * file or part is an item, and every include tag is a call.
+ */
+export class CallHierarchyProvider {
+  private workspaceRoot: string | null;
+  private logger: Logger;
+
+  constructor(workspaceRoot: string | null) {
+    this.workspaceRoot = workspaceRoot || null;
+    this.logger = new Logger("CallHierarchyProvider");
+  }
+
+  /**
+   * Returns the part included by the tag under the cursor, or the current file
+   */
+  public async handlePrepareRequest(
+    params: CallHierarchyPrepareParams,
+  ): Promise<CallHierarchyItem[] | null> {
+    if (!this.workspaceRoot) {
+      return null;
+    }
+
+    const filePath = URI.parse(params.textDocument.uri).fsPath;
+    const liquidNode = new LiquidTagIdentifier().identifyNode(
+      DocumentSource.getInstance().readFile(filePath),
+      params.position.line,
+      params.position.character,
+    );
+
+    if (liquidNode && liquidNode.type === "include_statement") {
+      const includeTag = new IncludeParser().identifyIncludeTag(liquidNode);
+      const includedFilePath = includeTag
+        ? this.resolveInclude(includeTag, filePath)
+        : null;
+      if (includedFilePath) {
+        return [this.createItem(includedFilePath)];
+      }
+    }
+
+    return parseTemplateUri(params.textDocument.uri)
+      ? [this.createItem(filePath)]
+      : null;
+  }
+
+  /**
+   * Lists the files including the item's part
+   */
+  public async handleIncomingCallsRequest(
+    item: CallHierarchyItem,
+  ): Promise<CallHierarchyIncomingCall[]> {
+    const templateInfo = parseTemplateUri(item.uri);
+    if (
+      !this.workspaceRoot ||
+      !templateInfo ||
+      templateInfo.partType === "main"
+    ) {
+      return [];
+    }
+
+    const references = new TemplateWorkspaceScanner(
+      this.workspaceRoot,
+    ).findIncludeReferences(
+      templateInfo.partType,
+      templateInfo.partName,
+      templateInfo,
+    );
+
+    const rangesByFile = new Map<string, Range[]>();
+    for (const { fileFullPath, includeTag } of references) {
+      const ranges = rangesByFile.get(fileFullPath) ?? [];
+      ranges.push(this.getIncludeRange(includeTag));
+      rangesByFile.set(fileFullPath, ranges);
+    }
+
+    this.logger.debug(
+      `Found ${rangesByFile.size} files including ${templateInfo.partName}`,
+    );
+    return Array.from(rangesByFile, ([fileFullPath, fromRanges]) => ({
+      from: this.createItem(fileFullPath),
+      fromRanges,
+    }));
+  }
+
+  /**
+   * Lists the parts included by the item's file
+   */
+  public async handleOutgoingCallsRequest(
+    item: CallHierarchyItem,
+  ): Promise<CallHierarchyOutgoingCall[]> {
+    if (!this.workspaceRoot) {
+      return [];
+    }
+
+    const filePath = URI.parse(item.uri).fsPath;
+    let includeTags: IncludeTagInfo[];
+    try {
+      includeTags = new IncludeParser().findAllInFile(filePath);
+    } catch (error) {
+      this.logger.warn(`Could not read file: ${filePath}, ${error}`);
+      return [];
+    }
+
+    const rangesByFile = new Map<string, Range[]>();
+    for (const includeTag of includeTags) {
+      const includedFilePath = this.resolveInclude(includeTag, filePath);
+      if (!includedFilePath) {
+        continue;
+      }
+      const ranges = rangesByFile.get(includedFilePath) ?? [];
+      ranges.push(this.getIncludeRange(includeTag));
+      rangesByFile.set(includedFilePath, ranges);
+    }
+
+    this.logger.debug(
+      `Found ${rangesByFile.size} parts included by ${filePath}`,
+    );
+    return Array.from(rangesByFile, ([includedFilePath, fromRanges]) => ({
+      to: this.createItem(includedFilePath),
+      fromRanges,
+    }));
+  }
+
+  /**
+   * Resolves the file of an included part. Text parts included from a shared
+   * part depend on the including template, so they are not resolved.
+   * @param includingFilePath The file containing the include tag
+   */
+  private resolveInclude(
+    includeTag: IncludeTagInfo,
+    includingFilePath: string,
+  ): string | null {
+    const templateInfo = parseTemplateUri(
+      URI.file(includingFilePath).toString(),
+    );
+    if (
+      !templateInfo ||
+      (templateInfo.templateType === "sharedPart" &&
+        includeTag.type === "textPart")
+    ) {
+      return null;
+    }
+
+    const templateDir = new TemplateWorkspaceScanner(
+      this.workspaceRoot!,
+    ).getTemplateDirectory(
+      templateInfo.templateType,
+      templateInfo.templateName,
+    );
+    return new TemplatePartsMapper(
+      this.workspaceRoot!,
+    ).resolveIncludedPartFilePath(includeTag, templateDir);
+  }
+
+  private createItem(filePath: string): CallHierarchyItem {
+    const uri = URI.file(filePath).toString();
+    const templateInfo = parseTemplateUri(uri);
+    const fileStart: Range = {
+      start: { line: 0, character: 0 },
+      end: { line: 0, character: 0 },
+    };
+
+    if (!templateInfo) {
+      return {
+        name: path.basename(filePath),
+        kind: SymbolKind.File,
+        uri,
+        range: fileStart,
+        selectionRange: fileStart,
+      };
+    }
+
+    const isMain = templateInfo.partType === "main";
+    return {
+      name: isMain ? templateInfo.templateName : templateInfo.partName,
+      kind: isMain ? SymbolKind.Module : SymbolKind.File,
+      detail: isMain
+        ? templateInfo.templateType
+        : templateInfo.partType === "sharedPart"
+          ? "shared part"
+          : `text part of ${templateInfo.templateName}`,
+      uri,
+      range: fileStart,
+      selectionRange: fileStart,
+    };
+  }
+
+  private getIncludeRange(includeTag: IncludeTagInfo): Range {
+    return {
+      start: {
+        line: includeTag.startPosition.row,
+        character: includeTag.startPosition.column,
+      },
+      end: {
+        line: includeTag.endPosition.row,
+        character: includeTag.endPosition.column,
+      },
+    };
+  }
+}
@@ -0,0 +1,190 @@
+import { Logger } from "../logger";
+import {
+  CodeAction,
+  CodeActionKind,
+  CodeActionParams,
+  TextEdit,
+} from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import * as path from "path";
+import { DocumentSource } from "../utils/documentSource";
+import { isSharedPartUsage } from "../utils/templateConfigReader";
+import { TemplateWorkspaceScanner } from "../templates/templateWorkspaceScanner";
+import { SharedPartUsage, TemplateConfig } from "../templates/types";
+import { DiagnosticSource, UsedInDiagnosticCodes } from "./types";
+
+export class CodeActionProvider {
+  private workspaceRoot: string | null;
+  private textDocumentUri: CodeActionParams["textDocument"]["uri"];
+  private context: CodeActionParams["context"];
+  private logger: Logger;
+
+  constructor(params: CodeActionParams, workspaceRoot: string | null) {
+    this.workspaceRoot = workspaceRoot || null;
+    this.textDocumentUri = params.textDocument.uri;
+    this.context = params.context;
+    this.logger = new Logger("CodeActionProvider");
+  }
+
+  public async handleCodeActionRequest(): Promise<CodeAction[] | null> {
+    if (!this.workspaceRoot) {
+      return null;
+    }
+
+    const usedInCodes: (string | number | undefined)[] = Object.values(
+      UsedInDiagnosticCodes,
+    );
+    const usedInDiagnostics = this.context.diagnostics.filter(
+      (diagnostic) =>
+        diagnostic.source === DiagnosticSource &&
+        usedInCodes.includes(diagnostic.code),
+    );
+    if (usedInDiagnostics.length === 0) {
+      return null;
+    }
+
+    const edit = this.buildUsedInEdit();
+    if (!edit) {
+      return null;
+    }
+
+    return [
+      {
+        title:
+          "Update used_in to match the templates including this shared part",
+        kind: CodeActionKind.QuickFix,
+        diagnostics: usedInDiagnostics,
+        isPreferred: true,
+        edit: { changes: { [this.textDocumentUri]: [edit] } },
+      },
+    ];
+  }
+
+  /**
+   * Replaces the "used_in" list of the shared part's config.json with one
+   * matching the actual includes. Entries still in use keep their other fields
+   * (e.g. ids), new entries are appended. The rest of the file is left as is.
+   */
+  private buildUsedInEdit(): TextEdit | null {
+    const configPath = URI.parse(this.textDocumentUri).fsPath;
+    const document = TextDocument.create(
+      this.textDocumentUri,
+      "json",
+      0,
+      DocumentSource.getInstance().readFile(configPath),
+    );
+
+    let config: TemplateConfig;
+    try {
+      config = JSON.parse(document.getText());
+    } catch (error) {
+      this.logger.warn(`Could not parse ${configPath}: ${error}`);
+      return null;
+    }
+    if (!config || typeof config !== "object" || Array.isArray(config)) {
+      return null;
+    }
+
+    const sharedPartName = path.basename(path.dirname(configPath));
+    const actualUsages = new TemplateWorkspaceScanner(
+      this.workspaceRoot!,
+    ).findSharedPartUsages(sharedPartName);
+    // Invalid entries are dropped, as they cannot match any template
+    const listedUsages = Array.isArray(config.used_in)
+      ? config.used_in.filter(isSharedPartUsage)
+      : [];
+    const isSameUsage = (a: SharedPartUsage, b: SharedPartUsage) =>
+      a.type === b.type && a.handle === b.handle;
+
+    const usedIn = [
+      ...listedUsages.filter((listed) =>
+        actualUsages.some((usage) => isSameUsage(listed, usage)),
+      ),
+      ...actualUsages.filter(
+        (usage) => !listedUsages.some((listed) => isSameUsage(listed, usage)),
+      ),
+    ];
+
+    this.logger.debug(
+      `Updating used_in of ${sharedPartName} with ${usedIn.length} templates`,
+    );
+    const text = document.getText();
+    const keyOffset = text.indexOf(JSON.stringify("used_in"));
+
+    // Without a list yet, the key is added at the end of the config
+    if (keyOffset === -1) {
+      const closingOffset = text.lastIndexOf("}");
+      const insertOffset = text.substring(0, closingOffset).trimEnd().length;
+      const separator = text.substring(0, insertOffset).endsWith("{")
+        ? ""
+        : ",";
+      return TextEdit.replace(
+        {
+          start: document.positionAt(insertOffset),
+          end: document.positionAt(closingOffset),
+        },
+        `${separator}\n  ${JSON.stringify("used_in")}: ${this.formatList(usedIn, "  ")}\n`,
+      );
+    }
+
+    const colonOffset = text.indexOf(":", keyOffset);
+    const valueStart =
+      colonOffset +
+      1 +
+      Math.max(text.substring(colonOffset + 1).search(/\S/), 0);
+    const lineStart = text.lastIndexOf("\n", keyOffset) + 1;
+    const indent = text.substring(lineStart, keyOffset).match(/^\s*/)![0];
+
+    return TextEdit.replace(
+      {
+        start: document.positionAt(valueStart),
+        end: document.positionAt(this.findValueEnd(text, valueStart)),
+      },
+      this.formatList(usedIn, indent),
+    );
+  }
+
+  /**
+   * Formats a list as indented JSON, its lines after the first indented to
+   * the level of the key it belongs to
+   */
+  private formatList(list: SharedPartUsage[], indent: string): string {
+    return JSON.stringify(list, null, 2).replace(/\n/g, `\n${indent}`);
+  }
+
+  /**
+   * Finds the end of the JSON value starting at an offset, skipping nested
+   * arrays, objects and strings
+   * @returns The offset right after the value
+   */
+  private findValueEnd(text: string, startOffset: number): number {
+    // A string, a bracket, a separator or any other scalar
+    const tokenPattern = /"(?:[^"\\]|\\.)*"?|[[\]{}]|[,\s]|[^,\s[\]{}"]+/g;
+    tokenPattern.lastIndex = startOffset;
+    let depth = 0;
+
+    for (
+      let token = tokenPattern.exec(text);
+      token;
+      token = tokenPattern.exec(text)
+    ) {
+      const value = token[0];
+      if (value === "[" || value === "{") {
+        depth++;
+      } else if (value === "]" || value === "}") {
+        if (depth === 0) {
+          return token.index;
+        }
+        depth--;
+        if (depth === 0) {
+          return token.index + 1;
+        }
+      } else if (depth === 0) {
+        return /^[,\s]$/.test(value) ? token.index : tokenPattern.lastIndex;
+      }
+    }
+
+    return text.length;
+  }
+}
@@ -0,0 +1,279 @@
+import { Logger } from "../logger";
+import {
+  CompletionItem,
+  CompletionItemKind,
+  CompletionParams,
+  MarkupKind,
+  TextEdit,
+} from "vscode-languageserver/node";
+import * as path from "path";
+import { URI } from "vscode-uri";
+import { LiquidTagIdentifier } from "../liquid/liquidTagIdentifier";
+import { LiquidTagFinder } from "../liquid/liquidTagFinder";
+import { LiquidCompletionTags, LiquidTagName } from "../liquid/types";
+import { DocumentationProvider } from "./documentationProvider";
+import { TranslationProvider } from "./translationProvider";
+import { parseTemplateUri } from "../utils/templateUriParser";
+import { TemplateWorkspaceScanner } from "../templates/templateWorkspaceScanner";
+import { DocumentSource } from "../utils/documentSource";
+import { CustomDropIndex } from "../templates/customDropIndex";
+
+export class CompletionProvider {
+  private workspaceRoot: string | null;
+  private textDocumentUri: CompletionParams["textDocument"]["uri"];
+  private position: CompletionParams["position"];
+  private logger: Logger;
+
+  constructor(params: CompletionParams, workspaceRoot: string | null) {
+    this.workspaceRoot = workspaceRoot || null;
+    this.textDocumentUri = params.textDocument.uri;
+    this.position = params.position;
+    this.logger = new Logger("CompletionProvider");
+  }
+
+  public async handleCompletionRequest(): Promise<CompletionItem[] | null> {
+    const document = DocumentSource.getInstance().readUri(this.textDocumentUri);
+
+    const identifier = new LiquidTagIdentifier();
+    const context = identifier.identifyCompletionContext(
+      document,
+      this.position.line,
+      this.position.character,
+    );
+    if (!context) {
+      this.logger.debug("No completion context at cursor position");
+      return null;
+    }
+
+    this.logger.debug(
+      `Completion context: ${context.kind}, prefix: "${context.prefix}"`,
+    );
+
+    switch (context.kind) {
+      case "tagName":
+        return this.completeTagNames();
+      case "variable":
+        return this.completeVariables();
+      case "translationKey":
+        return this.completeTranslationKeys();
+      case "includePath":
+        return this.completeIncludePaths(context.prefix);
+      case "customDrop":
+        return this.completeCustomDrops(context.prefix);
+    }
+  }
+
+  /**
+   * Offers every known tag name, with its documentation when available
+   */
+  private completeTagNames(): CompletionItem[] {
+    const documentationProvider = new DocumentationProvider();
+
+    return LiquidCompletionTags.map((tagName) => {
+      const item: CompletionItem = {
+        label: tagName,
+        kind: CompletionItemKind.Keyword,
+      };
+      const documentation = documentationProvider.getTagHoverContent(
+        tagName as LiquidTagName,
+      );
+      if (documentation) {
+        item.documentation = {
+          kind: MarkupKind.Markdown,
+          value: documentation,
+        };
+      }
+      return item;
+    });
+  }
+
+  /**
+   * Offers every variable defined before the cursor across the include chain.
+   * When a variable is defined more than once, the closest definition is shown.
+   */
+  private async completeVariables(): Promise<CompletionItem[] | null> {
+    if (!this.workspaceRoot) {
+      return null;
+    }
+
+    const finder = new LiquidTagFinder();
+    const nodes = await finder.findAllVariableDefinitionsBeforePosition(
+      this.textDocumentUri,
+      this.position.line,
+      this.position.character,
+      null,
+      this.workspaceRoot,
+    );
+    if (!nodes) {
+      return null;
+    }
+
+    const items = new Map<string, CompletionItem>();
+    for (const { node, templatePart } of nodes) {
+      const variableName = finder.getDefinedVariableName(node);
+      if (!variableName) {
+        continue;
+      }
+      items.set(variableName, {
+        label: variableName,
+        kind: CompletionItemKind.Variable,
+        detail: node.text.split("\n")[0],
+        documentation: `Defined in ${path.basename(templatePart.fileFullPath)} (line ${node.startPosition.row + 1})`,
+      });
+    }
+
+    this.logger.debug(`Found ${items.size} variable completions`);
+    return Array.from(items.values());
+  }
+
+  /**
+   * Offers every translation key declared with {% t= %} before the cursor
+   */
+  private async completeTranslationKeys(): Promise<CompletionItem[] | null> {
+    if (!this.workspaceRoot) {
+      return null;
+    }
+
+    const finder = new LiquidTagFinder();
+    const nodes = await finder.findAllNodesBeforePosition(
+      this.textDocumentUri,
+      this.position.line,
+      this.position.character,
+      null,
+      ["translation_statement"],
+      this.workspaceRoot,
+    );
+    if (!nodes) {
+      return null;
+    }
+
+    const identifier = new LiquidTagIdentifier();
+    const translationProvider = new TranslationProvider();
+    const items = new Map<string, CompletionItem>();
+    for (const { node } of nodes) {
+      const translationKey = identifier.identifyNodeKey(node);
+      if (!translationKey) {
+        continue;
+      }
+      items.set(translationKey, {
+        label: translationKey,
+        kind: CompletionItemKind.Constant,
+        documentation: translationProvider.extractInfo(node),
+      });
+    }
+
+    this.logger.debug(`Found ${items.size} translation key completions`);
+    return Array.from(items.values());
+  }
+
+  /**
+   * Offers the custom drop namespaces used by the current template after
+   * "custom.", and the keys of a namespace after "custom.<namespace>."
+   * @param prefix The part of the drop path typed after "custom."
+   */
+  private async completeCustomDrops(
+    prefix: string,
+  ): Promise<CompletionItem[] | null> {
+    const templateInfo = parseTemplateUri(this.textDocumentUri);
+    if (!this.workspaceRoot || !templateInfo) {
+      return null;
+    }
+
+    const drops = await CustomDropIndex.getInstance(
+      this.workspaceRoot,
+    ).getDrops(templateInfo.templateType, templateInfo.templateName);
+
+    const separatorIndex = prefix.indexOf(".");
+    const namespace =
+      separatorIndex === -1 ? null : prefix.substring(0, separatorIndex);
+    const filePath = URI.parse(this.textDocumentUri).fsPath;
+    const typedDropStart =
+      this.position.character - prefix.length - "custom.".length;
+    const items = new Map<string, CompletionItem>();
+
+    for (const { fileFullPath, drop } of drops) {
+      // The drop being typed is not a completion of itself, whatever part of
+      // it was indexed
+      if (
+        fileFullPath === filePath &&
+        drop.startPosition.row === this.position.line &&
+        drop.startPosition.column === typedDropStart
+      ) {
+        continue;
+      }
+
+      if (namespace === null) {
+        items.set(drop.namespace, {
+          label: drop.namespace,
+          kind: CompletionItemKind.Module,
+          detail: "Custom namespace",
+        });
+      } else if (drop.namespace === namespace) {
+        const existing = items.get(drop.key);
+        items.set(drop.key, {
+          label: drop.key,
+          kind: CompletionItemKind.Field,
+          detail:
+            existing?.detail === "Input" || drop.usage === "input"
+              ? "Input"
+              : "Custom drop",
+        });
+      }
+    }
+
+    this.logger.debug(`Found ${items.size} custom drop completions`);
+    return Array.from(items.values());
+  }
+
+  /**
+   * Offers the text parts of the current template ("parts/<name>") and every
+   * shared part of the workspace ("shared/<name>")
+   * @param prefix The part of the include path already typed
+   */
+  private completeIncludePaths(prefix: string): CompletionItem[] | null {
+    if (!this.workspaceRoot) {
+      return null;
+    }
+
+    const scanner = new TemplateWorkspaceScanner(this.workspaceRoot);
+    const includePaths: { includePath: string; detail: string }[] = [];
+
+    const templateInfo = parseTemplateUri(this.textDocumentUri);
+    if (templateInfo && templateInfo.templateType !== "sharedPart") {
+      for (const name of scanner.listTextPartNames(
+        templateInfo.templateType,
+        templateInfo.templateName,
+      )) {
+        includePaths.push({
+          includePath: `parts/${name}`,
+          detail: "Text part",
+        });
+      }
+    }
+
+    for (const name of scanner.listSharedPartNames()) {
+      includePaths.push({
+        includePath: `shared/${name}`,
+        detail: "Shared part",
+      });
+    }
+
+    // Replace the whole typed path, as "/" is not a word character for most clients
+    const range = {
+      start: {
+        line: this.position.line,
+        character: this.position.character - prefix.length,
+      },
+      end: this.position,
+    };
+
+    this.logger.debug(`Found ${includePaths.length} include path completions`);
+    return includePaths.map(({ includePath, detail }) => ({
+      label: includePath,
+      kind: CompletionItemKind.File,
+      detail,
+      filterText: includePath,
+      textEdit: TextEdit.replace(range, includePath),
+    }));
+  }
+}
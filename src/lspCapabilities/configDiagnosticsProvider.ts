@@ -0,0 +1,343 @@
+import { Logger } from "../logger";
+import {
+  Diagnostic,
+  DiagnosticSeverity,
+  Range,
+} from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import * as path from "path";
+import { DocumentSource } from "../utils/documentSource";
+import { TemplateWorkspaceScanner } from "../templates/templateWorkspaceScanner";
+import {
+  RequiredConfigKeys,
+  SharedPartUsage,
+  TemplateConfig,
+  TemplateDirectories,
+  TemplateTypes,
+} from "../templates/types";
+import { isSharedPartUsage } from "../utils/templateConfigReader";
+import { DiagnosticSource, UsedInDiagnosticCodes } from "./types";
+
+export class ConfigDiagnosticsProvider {
+  private workspaceRoot: string | null;
+  private textDocumentUri: string;
+  private logger: Logger;
+
+  constructor(textDocumentUri: string, workspaceRoot: string | null) {
+    this.workspaceRoot = workspaceRoot || null;
+    this.textDocumentUri = textDocumentUri;
+    this.logger = new Logger("ConfigDiagnosticsProvider");
+  }
+
+  /**
+   * Checks a template's config.json against the files of its folder
+   */
+  public async handleDiagnosticsRequest(): Promise<Diagnostic[]> {
+    if (!this.workspaceRoot) {
+      return [];
+    }
+
+    const configPath = URI.parse(this.textDocumentUri).fsPath;
+    const templateType = this.identifyTemplateType(configPath);
+    if (!templateType) {
+      this.logger.debug(`Not a template config: ${this.textDocumentUri}`);
+      return [];
+    }
+
+    const document = TextDocument.create(
+      this.textDocumentUri,
+      "json",
+      0,
+      DocumentSource.getInstance().readFile(configPath),
+    );
+
+    let config: TemplateConfig;
+    try {
+      config = JSON.parse(document.getText());
+    } catch (error) {
+      return [
+        this.createDiagnostic(
+          this.getOffsetRange(document, 0, 1),
+          `config.json is not valid JSON: ${error}`,
+          DiagnosticSeverity.Error,
+        ),
+      ];
+    }
+    if (!config || typeof config !== "object" || Array.isArray(config)) {
+      return [
+        this.createDiagnostic(
+          this.getOffsetRange(document, 0, 1),
+          "config.json must contain a JSON object",
+          DiagnosticSeverity.Error,
+        ),
+      ];
+    }
+
+    const templateDir = path.dirname(configPath);
+    const diagnostics = [
+      ...this.checkRequiredKeys(document, config, templateType),
+      ...this.checkListedFiles(document, config, templateDir),
+      ...this.checkUnlistedFiles(document, config, templateDir, templateType),
+      ...(templateType === "sharedPart"
+        ? this.checkUsedIn(document, config, path.basename(templateDir))
+        : []),
+    ];
+
+    this.logger.debug(
+      `Found ${diagnostics.length} diagnostics for ${this.textDocumentUri}`,
+    );
+    return diagnostics;
+  }
+
+  /**
+   * Reports the keys required for the template type that are missing
+   */
+  private checkRequiredKeys(
+    document: TextDocument,
+    config: TemplateConfig,
+    templateType: TemplateTypes,
+  ): Diagnostic[] {
+    return RequiredConfigKeys[templateType]
+      .filter((key) => config[key] === undefined)
+      .map((key) =>
+        this.createDiagnostic(
+          this.getOffsetRange(document, 0, 1),
+          `Missing required key "${key}" for ${templateType}`,
+          DiagnosticSeverity.Error,
+        ),
+      );
+  }
+
+  /**
+   * Reports a "text" or "text_parts" entry pointing to a file that does not exist
+   */
+  private checkListedFiles(
+    document: TextDocument,
+    config: TemplateConfig,
+    templateDir: string,
+  ): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+
+    if (
+      typeof config.text === "string" &&
+      !DocumentSource.getInstance().exists(path.join(templateDir, config.text))
+    ) {
+      diagnostics.push(
+        this.createDiagnostic(
+          this.findKeyRange(document, "text"),
+          `Main template file not found: ${config.text}`,
+          DiagnosticSeverity.Error,
+        ),
+      );
+    }
+
+    const textParts = this.getTextParts(config);
+    if (!textParts) {
+      diagnostics.push(
+        this.createDiagnostic(
+          this.findKeyRange(document, "text_parts"),
+          "text_parts must be an object mapping part names to file paths",
+          DiagnosticSeverity.Error,
+        ),
+      );
+      return diagnostics;
+    }
+
+    const textPartsOffset = document
+      .getText()
+      .indexOf(JSON.stringify("text_parts"));
+    for (const [partName, partPath] of Object.entries(textParts)) {
+      if (
+        typeof partPath !== "string" ||
+        !DocumentSource.getInstance().exists(path.join(templateDir, partPath))
+      ) {
+        diagnostics.push(
+          this.createDiagnostic(
+            this.findKeyRange(document, partName, textPartsOffset),
+            `Text part file not found: ${partPath}`,
+            DiagnosticSeverity.Error,
+          ),
+        );
+      }
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Reports Liquid files of the template folder that are not listed in the config.
+   * Without a "text" key, main.liquid (or the shared part's own file) is the main template.
+   */
+  private checkUnlistedFiles(
+    document: TextDocument,
+    config: TemplateConfig,
+    templateDir: string,
+    templateType: TemplateTypes,
+  ): Diagnostic[] {
+    const defaultMainFile =
+      templateType === "sharedPart"
+        ? `${path.basename(templateDir)}.liquid`
+        : "main.liquid";
+    const listedFiles = new Set(
+      [
+        typeof config.text === "string" ? config.text : defaultMainFile,
+        ...Object.values(this.getTextParts(config) ?? {}),
+      ]
+        .filter((listedPath) => typeof listedPath === "string")
+        .map((listedPath) => path.join(templateDir, listedPath)),
+    );
+
+    const range = this.findKeyRange(
+      document,
+      config.text_parts ? "text_parts" : "text",
+    );
+    return new TemplateWorkspaceScanner(this.workspaceRoot!)
+      .listLiquidFiles(templateDir)
+      .filter((filePath) => !listedFiles.has(filePath))
+      .map((filePath) =>
+        this.createDiagnostic(
+          range,
+          `Liquid file not listed in config.json: ${path.relative(templateDir, filePath)}`,
+          DiagnosticSeverity.Warning,
+        ),
+      );
+  }
+
+  /**
+   * Compares the "used_in" list of a shared part with the templates that
+   * actually include it
+   * @param sharedPartName The name of the shared part
+   */
+  private checkUsedIn(
+    document: TextDocument,
+    config: TemplateConfig,
+    sharedPartName: string,
+  ): Diagnostic[] {
+    const listedEntries = Array.isArray(config.used_in) ? config.used_in : [];
+    const listedUsages = listedEntries.filter(isSharedPartUsage);
+    const actualUsages = new TemplateWorkspaceScanner(
+      this.workspaceRoot!,
+    ).findSharedPartUsages(sharedPartName);
+    const isSameUsage = (a: SharedPartUsage, b: SharedPartUsage) =>
+      a.type === b.type && a.handle === b.handle;
+
+    const usedInRange = this.findKeyRange(document, "used_in");
+    const usedInOffset = document.getText().indexOf(JSON.stringify("used_in"));
+    const diagnostics: Diagnostic[] = [];
+
+    listedEntries.forEach((entry, index) => {
+      if (!isSharedPartUsage(entry)) {
+        diagnostics.push({
+          ...this.createDiagnostic(
+            usedInRange,
+            `used_in entry ${index + 1} must be an object with a "type" and a "handle"`,
+            DiagnosticSeverity.Warning,
+          ),
+          code: UsedInDiagnosticCodes.invalid,
+        });
+      }
+    });
+
+    for (const usage of actualUsages) {
+      if (!listedUsages.some((listed) => isSameUsage(listed, usage))) {
+        diagnostics.push({
+          ...this.createDiagnostic(
+            usedInRange,
+            `${usage.type} "${usage.handle}" includes this shared part but is missing from used_in`,
+            DiagnosticSeverity.Warning,
+          ),
+          code: UsedInDiagnosticCodes.missing,
+        });
+      }
+    }
+
+    for (const listed of listedUsages) {
+      if (!actualUsages.some((usage) => isSameUsage(listed, usage))) {
+        diagnostics.push({
+          ...this.createDiagnostic(
+            usedInOffset === -1
+              ? usedInRange
+              : this.findKeyRange(document, listed.handle, usedInOffset),
+            `${listed.type} "${listed.handle}" is listed in used_in but does not include this shared part`,
+            DiagnosticSeverity.Warning,
+          ),
+          code: UsedInDiagnosticCodes.stale,
+        });
+      }
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Gets the "text_parts" map of the config, which is empty when the key is absent
+   * @returns The map, or null when "text_parts" is not a plain object
+   */
+  private getTextParts(config: TemplateConfig): Record<string, unknown> | null {
+    const textParts: unknown =
+      config.text_parts === undefined ? {} : config.text_parts;
+    return typeof textParts === "object" &&
+      textParts !== null &&
+      !Array.isArray(textParts)
+      ? (textParts as Record<string, unknown>)
+      : null;
+  }
+
+  /**
+   * Identifies the template type of a config.json placed directly in a template folder,
+   * e.g. "reconciliation_texts/my_template/config.json"
+   */
+  private identifyTemplateType(configPath: string): TemplateTypes | null {
+    const segments = path
+      .relative(this.workspaceRoot!, configPath)
+      .split(path.sep);
+    if (segments.length !== 3 || segments[2] !== "config.json") {
+      return null;
+    }
+
+    return (
+      (Object.keys(TemplateDirectories) as TemplateTypes[]).find(
+        (type) => TemplateDirectories[type] === segments[0],
+      ) ?? null
+    );
+  }
+
+  /**
+   * Finds the range of a quoted key in the config text, falling back to the
+   * start of the document when it cannot be found
+   * @param fromOffset Offset to start searching from, e.g. the start of a nested object
+   */
+  private findKeyRange(
+    document: TextDocument,
+    key: string,
+    fromOffset: number = 0,
+  ): Range {
+    const quotedKey = JSON.stringify(key);
+    const offset = document
+      .getText()
+      .indexOf(quotedKey, Math.max(fromOffset, 0));
+    return offset === -1
+      ? this.getOffsetRange(document, 0, 1)
+      : this.getOffsetRange(document, offset, offset + quotedKey.length);
+  }
+
+  private getOffsetRange(
+    document: TextDocument,
+    startOffset: number,
+    endOffset: number,
+  ): Range {
+    return {
+      start: document.positionAt(startOffset),
+      end: document.positionAt(endOffset),
+    };
+  }
+
+  private createDiagnostic(
+    range: Range,
+    message: string,
+    severity: DiagnosticSeverity,
+  ): Diagnostic {
+    return { range, message, severity, source: DiagnosticSource };
+  }
+}
@@ -3,11 +3,16 @@ import { DefinitionParams, Location } from "vscode-languageserver/node";
 import { LiquidTagIdentifier } from "../liquid/liquidTagIdentifier";
 import { LiquidTagFinder } from "../liquid/liquidTagFinder";
 import { URI } from "vscode-uri";
-import * as fs from "fs";
 import { IncludeParser } from "../liquid/includeParser";
+import { ResultReferenceParser } from "../liquid/resultReferenceParser";
+import { CustomDropParser } from "../liquid/customDropParser";
+import { CustomDropInfo, ResultReferenceInfo } from "../liquid/types";
+import { CustomDropIndex } from "../templates/customDropIndex";
 import { parseTemplateUri } from "../utils/templateUriParser";
-import { TemplateDirectories } from "../templates/types";
+import { TemplatePartsMapper } from "../templates/templatePartsMapper";
+import { TemplateWorkspaceScanner } from "../templates/templateWorkspaceScanner";
 import * as Parser from "tree-sitter";
+import { DocumentSource } from "../utils/documentSource";
 
 export class DefinitionProvider {
   private workspaceRoot: string | null;
@@ -24,7 +29,7 @@ export class DefinitionProvider {
 
   public async handleDefinitionRequest(): Promise<Location[] | null> {
     const filePath = URI.parse(this.textDocumentUri).fsPath;
-    const fileContent = fs.readFileSync(filePath, "utf8");
+    const fileContent = DocumentSource.getInstance().readFile(filePath);
 
     if (!fileContent) {
       this.logger.error(`Document not found for URI: ${this.textDocumentUri}`);
@@ -55,6 +60,26 @@ export class DefinitionProvider {
       }
     }
 
+    // RESULT LOOKUP (period.reconciliations.<handle>.results.<name>)
+    const resultReference = new ResultReferenceParser().identifyAtPosition(
+      fileContent,
+      this.position.line,
+      this.position.character,
+    );
+    if (resultReference) {
+      return this.handleResultReference(resultReference);
+    }
+
+    // CUSTOM DROP (custom.<namespace>.<key>)
+    const customDrop = new CustomDropParser().identifyAtPosition(
+      fileContent,
+      this.position.line,
+      this.position.character,
+    );
+    if (customDrop) {
+      return this.handleCustomDrop(customDrop);
+    }
+
     // VARIABLE
     const variableNode = identifier.identifyVariable(
       fileContent,
@@ -83,14 +108,16 @@ export class DefinitionProvider {
     const includeTag = includeParser.identifyIncludeTag(liquidNode);
     const templateInfo = parseTemplateUri(this.textDocumentUri);
     if (includeTag && this.workspaceRoot && templateInfo) {
-      let partPath;
-      if (includeTag.type === "sharedPart") {
-        partPath = `${this.workspaceRoot}/shared_parts/${includeTag.name}/${includeTag.name}.liquid`;
-      } else if (includeTag.type === "textPart") {
-        const templateDir = TemplateDirectories[templateInfo.templateType];
-        partPath = `${this.workspaceRoot}/${templateDir}/${templateInfo.templateName}/text_parts/${includeTag.name}.liquid`;
-      }
-      if (partPath && fs.existsSync(partPath)) {
+      const templateDir = new TemplateWorkspaceScanner(
+        this.workspaceRoot,
+      ).getTemplateDirectory(
+        templateInfo.templateType,
+        templateInfo.templateName,
+      );
+      const partPath = new TemplatePartsMapper(
+        this.workspaceRoot,
+      ).resolveIncludedPartFilePath(includeTag, templateDir);
+      if (partPath) {
         this.logger.debug(`Found file for include tag: ${partPath}`);
         return [
           {
@@ -102,7 +129,9 @@ export class DefinitionProvider {
           },
         ];
       }
-      this.logger.debug(`File not found for include tag: ${partPath}`);
+      this.logger.debug(
+        `File not found for include tag: ${includeTag.type}/${includeTag.name}`,
+      );
     }
 
     this.logger.warn("No definition found for include tag");
@@ -120,6 +149,7 @@ export class DefinitionProvider {
       const nodes = await finder.findAllNodesBeforePosition(
         this.textDocumentUri,
         this.position.line,
+        this.position.character,
         nodeKey,
         [searchFor],
         this.workspaceRoot,
@@ -155,6 +185,93 @@ export class DefinitionProvider {
     return null;
   }
 
+  /**
+   * Handles the definition lookup for another reconciliation's result.
+   * @param resultReference The result lookup under the cursor.
+   * @returns The {% result %} tags defining the result, or null if not found.
+   */
+  private async handleResultReference(
+    resultReference: ResultReferenceInfo,
+  ): Promise<Location[] | null> {
+    if (!this.workspaceRoot) {
+      return null;
+    }
+
+    const { handle, resultName } = resultReference;
+    const nodes = await new LiquidTagFinder().findResultDefinitions(
+      handle,
+      resultName,
+      this.workspaceRoot,
+    );
+    if (!nodes || nodes.length === 0) {
+      this.logger.debug(
+        `No result definition found for: ${handle}.${resultName}`,
+      );
+      return null;
+    }
+
+    this.logger.debug(
+      `Found ${nodes.length} definitions for result: ${handle}.${resultName}`,
+    );
+    return nodes.map(({ node, templatePart }) => ({
+      uri: URI.file(templatePart.fileFullPath).toString(),
+      range: {
+        start: {
+          line: node.startPosition.row,
+          character: node.startPosition.column,
+        },
+        end: {
+          line: node.endPosition.row,
+          character: node.endPosition.column,
+        },
+      },
+    }));
+  }
+
+  /**
+   * Handles the definition lookup for custom drops.
+   * @param customDrop The custom drop under the cursor.
+   * @returns The {% input %} tags of the template writing the drop, or null if not found.
+   */
+  private async handleCustomDrop(
+    customDrop: CustomDropInfo,
+  ): Promise<Location[] | null> {
+    const templateInfo = parseTemplateUri(this.textDocumentUri);
+    if (!this.workspaceRoot || !templateInfo) {
+      return null;
+    }
+
+    const drops = await CustomDropIndex.getInstance(
+      this.workspaceRoot,
+    ).getDrops(templateInfo.templateType, templateInfo.templateName);
+    const inputs = drops.filter(
+      ({ drop }) =>
+        drop.usage === "input" &&
+        drop.namespace === customDrop.namespace &&
+        drop.key === customDrop.key,
+    );
+    if (inputs.length === 0) {
+      this.logger.debug(
+        `No input found for: custom.${customDrop.namespace}.${customDrop.key}`,
+      );
+      return null;
+    }
+
+    return inputs.map(({ fileFullPath, drop }) => ({
+      uri: URI.file(fileFullPath).toString(),
+      range: {
+        start: {
+          line: drop.startPosition.row,
+          character: drop.startPosition.column,
+        },
+        end: {
+          line: drop.endPosition.row,
+          character: drop.endPosition.column,
+        },
+      },
+    }));
+  }
+
   private async handleVariable(
     liquidNode: Parser.SyntaxNode,
   ): Promise<Location[] | null> {
@@ -169,6 +286,7 @@ export class DefinitionProvider {
     const nodes = await finder.findAllVariableDefinitionsBeforePosition(
       this.textDocumentUri,
       this.position.line,
+      this.position.character,
       variableName,
       this.workspaceRoot,
     );
@@ -0,0 +1,494 @@
+import { Logger } from "../logger";
+import {
+  Diagnostic,
+  DiagnosticSeverity,
+  Range,
+} from "vscode-languageserver/node";
+import { URI } from "vscode-uri";
+import * as path from "path";
+import * as Parser from "tree-sitter";
+import { IncludeParser } from "../liquid/includeParser";
+import { IncludeTagInfo, SilverfinGlobalVariables } from "../liquid/types";
+import { LiquidTagFinder } from "../liquid/liquidTagFinder";
+import { LiquidTagIdentifier } from "../liquid/liquidTagIdentifier";
+import { parseTemplateUri } from "../utils/templateUriParser";
+import { TemplatePartsMapper } from "../templates/templatePartsMapper";
+import { TemplateWorkspaceScanner } from "../templates/templateWorkspaceScanner";
+import { TemplatePart, TemplateTypes } from "../templates/types";
+import { LiquidTreeCache } from "../liquid/liquidTreeCache";
+import { TranslationProvider } from "./translationProvider";
+import {
+  DefaultDiagnosticsOptions,
+  DiagnosticSource,
+  DiagnosticsOptions,
+} from "./types";
+
+export class DiagnosticsProvider {
+  private workspaceRoot: string | null;
+  private textDocumentUri: string;
+  private options: DiagnosticsOptions;
+  private logger: Logger;
+
+  /**
+   * @param options Settings for the checks, defaults apply when not provided
+   */
+  constructor(
+    textDocumentUri: string,
+    workspaceRoot: string | null,
+    options?: Partial<DiagnosticsOptions>,
+  ) {
+    this.workspaceRoot = workspaceRoot || null;
+    this.textDocumentUri = textDocumentUri;
+    this.options = { ...DefaultDiagnosticsOptions, ...options };
+    this.logger = new Logger("DiagnosticsProvider");
+  }
+
+  public async handleDiagnosticsRequest(): Promise<Diagnostic[]> {
+    if (!this.workspaceRoot) {
+      return [];
+    }
+
+    const templateInfo = parseTemplateUri(this.textDocumentUri);
+    if (!templateInfo) {
+      this.logger.debug(`Not a template file: ${this.textDocumentUri}`);
+      return [];
+    }
+
+    const filePath = URI.parse(this.textDocumentUri).fsPath;
+    const scanner = new TemplateWorkspaceScanner(this.workspaceRoot);
+    const templateDir = scanner.getTemplateDirectory(
+      templateInfo.templateType,
+      templateInfo.templateName,
+    );
+
+    const isSharedPart = templateInfo.templateType === "sharedPart";
+    const diagnostics = [
+      ...this.checkIncludes(filePath, templateDir, isSharedPart),
+      ...(isSharedPart
+        ? await this.checkInRenderingTemplates(
+            filePath,
+            templateInfo.templateName,
+            scanner,
+          )
+        : await this.checkRenderOrder(filePath, templateInfo)),
+      ...this.checkTranslationLocales(filePath),
+    ];
+
+    this.logger.debug(
+      `Found ${diagnostics.length} diagnostics for ${this.textDocumentUri}`,
+    );
+    return diagnostics;
+  }
+
+  /**
+   * Reports includes pointing to parts that do not exist, and includes that
+   * lead back to the current file.
+   * @param isSharedPart Text parts are resolved against the including template,
+   * so they cannot be checked from a shared part
+   */
+  private checkIncludes(
+    filePath: string,
+    templateDir: string,
+    isSharedPart: boolean,
+  ): Diagnostic[] {
+    const mapper = new TemplatePartsMapper(this.workspaceRoot!);
+    const includeParser = new IncludeParser();
+    const diagnostics: Diagnostic[] = [];
+
+    for (const includeTag of includeParser.findAllInFile(filePath)) {
+      if (isSharedPart && includeTag.type === "textPart") {
+        continue;
+      }
+
+      const includedFilePath = mapper.resolveIncludedPartFilePath(
+        includeTag,
+        templateDir,
+      );
+      if (!includedFilePath) {
+        diagnostics.push({
+          severity: DiagnosticSeverity.Error,
+          range: this.getIncludeRange(includeTag),
+          message: `Included ${includeTag.type === "sharedPart" ? "shared part" : "text part"} not found: "${includeTag.path}"`,
+          source: DiagnosticSource,
+        });
+        continue;
+      }
+
+      const cycle = this.findIncludeCycle(
+        includedFilePath,
+        filePath,
+        templateDir,
+        mapper,
+        [filePath],
+        new Set<string>(),
+      );
+      if (cycle) {
+        diagnostics.push({
+          severity: DiagnosticSeverity.Error,
+          range: this.getIncludeRange(includeTag),
+          message: `Circular include: ${cycle.map((file) => path.basename(file)).join(" -> ")}`,
+          source: DiagnosticSource,
+        });
+      }
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Runs the checks depending on what is rendered before the document in a template
+   * @param template The template rendering the document
+   */
+  private async checkRenderOrder(
+    filePath: string,
+    template: { templateType: TemplateTypes; templateName: string },
+  ): Promise<Diagnostic[]> {
+    return [
+      ...(await this.checkUndefinedVariables(filePath, template)),
+      ...(await this.checkTranslations(filePath, template)),
+    ];
+  }
+
+  /**
+   * Runs the render order checks of a shared part in every template including
+   * it, as its variables and translations are usually defined there.
+   * Diagnostics found in only some of the templates name them.
+   * A shared part that no template includes is checked on its own.
+   */
+  private async checkInRenderingTemplates(
+    filePath: string,
+    sharedPartName: string,
+    scanner: TemplateWorkspaceScanner,
+  ): Promise<Diagnostic[]> {
+    const templates = scanner.findTemplatesRenderingSharedPart(sharedPartName);
+    if (templates.length === 0) {
+      return this.checkRenderOrder(filePath, {
+        templateType: "sharedPart",
+        templateName: sharedPartName,
+      });
+    }
+
+    const found = new Map<
+      string,
+      { diagnostic: Diagnostic; templateNames: string[] }
+    >();
+    for (const template of templates) {
+      for (const diagnostic of await this.checkRenderOrder(
+        filePath,
+        template,
+      )) {
+        const key = `${diagnostic.range.start.line}:${diagnostic.range.start.character}:${diagnostic.message}`;
+        const existing = found.get(key);
+        if (existing) {
+          existing.templateNames.push(template.templateName);
+        } else {
+          found.set(key, {
+            diagnostic,
+            templateNames: [template.templateName],
+          });
+        }
+      }
+    }
+
+    return Array.from(found.values()).map(({ diagnostic, templateNames }) =>
+      templateNames.length === templates.length
+        ? diagnostic
+        : {
+            ...diagnostic,
+            message: `${diagnostic.message} (when included by ${templateNames.join(", ")})`,
+          },
+    );
+  }
+
+  /**
+   * Reports variable references in the document with no assign, capture or for
+   * definition rendered before them. The template is walked in render order so
+   * definitions from earlier parts (and earlier in the same part) are known.
+   * A file included more than once is checked at its first inclusion.
+   */
+  private async checkUndefinedVariables(
+    filePath: string,
+    template: { templateType: TemplateTypes; templateName: string },
+  ): Promise<Diagnostic[]> {
+    const finder = new LiquidTagFinder();
+    const identifierNodes = await finder.findAllNodesInTemplate(
+      template.templateType,
+      template.templateName,
+      ["identifier"],
+      this.workspaceRoot!,
+    );
+    if (!identifierNodes) {
+      return [];
+    }
+
+    const identifier = new LiquidTagIdentifier();
+    const globals: readonly string[] = SilverfinGlobalVariables;
+    const definedVariables = new Set<string>();
+    // Assign and capture definitions only apply once their statement ends:
+    // {% assign total = total | plus: 1 %} references the previous "total"
+    let pendingDefinitions: { name: string; statement: Parser.SyntaxNode }[] =
+      [];
+    const checkedNodes = new Set<string>();
+    const diagnostics: Diagnostic[] = [];
+    let previousPart: TemplatePart | null = null;
+
+    for (const { node, templatePart } of identifierNodes) {
+      pendingDefinitions = pendingDefinitions.filter((pending) => {
+        const isComplete =
+          templatePart !== previousPart ||
+          node.startIndex >= pending.statement.endIndex;
+        if (isComplete) {
+          definedVariables.add(pending.name);
+        }
+        return !isComplete;
+      });
+      previousPart = templatePart;
+
+      if (identifier.isVariableDefinition(node)) {
+        if (node.parent!.type === "for_loop_statement") {
+          definedVariables.add(node.text);
+        } else {
+          pendingDefinitions.push({ name: node.text, statement: node.parent! });
+        }
+        continue;
+      }
+
+      if (templatePart.fileFullPath !== filePath) {
+        continue;
+      }
+      const nodeKey = `${node.startIndex}`;
+      if (checkedNodes.has(nodeKey)) {
+        continue;
+      }
+      checkedNodes.add(nodeKey);
+
+      if (
+        !identifier.isVariable(node) ||
+        definedVariables.has(node.text) ||
+        globals.includes(node.text)
+      ) {
+        continue;
+      }
+
+      diagnostics.push({
+        severity: DiagnosticSeverity.Warning,
+        range: this.getNodeRange(node),
+        message: `Variable "${node.text}" is not defined before it is used`,
+        source: DiagnosticSource,
+      });
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Reports translation keys used with {% t "key" %} that have no {% t= "key" %}
+   * rendered before them, and definitions that only come after the key's first use
+   * (Silverfin then renders the raw key).
+   * Keys given as variables cannot be resolved and are ignored.
+   */
+  private async checkTranslations(
+    filePath: string,
+    template: { templateType: TemplateTypes; templateName: string },
+  ): Promise<Diagnostic[]> {
+    const finder = new LiquidTagFinder();
+    const translationNodes = await finder.findAllNodesInTemplate(
+      template.templateType,
+      template.templateName,
+      ["translation_statement", "translation_expression"],
+      this.workspaceRoot!,
+    );
+    if (!translationNodes) {
+      return [];
+    }
+
+    const identifier = new LiquidTagIdentifier();
+    const definedKeys = new Set<string>();
+    const usedKeys = new Set<string>();
+    const undefinedUses: { key: string; node: Parser.SyntaxNode }[] = [];
+    const checkedNodes = new Set<string>();
+    const diagnostics: Diagnostic[] = [];
+
+    for (const { node, templatePart } of translationNodes) {
+      const translationKey = identifier.identifyNodeKey(node);
+      if (!translationKey) {
+        continue;
+      }
+
+      const isCurrentFile = templatePart.fileFullPath === filePath;
+      const nodeKey = `${node.startIndex}`;
+      const isFirstCheck = isCurrentFile && !checkedNodes.has(nodeKey);
+      if (isCurrentFile) {
+        checkedNodes.add(nodeKey);
+      }
+
+      if (node.type === "translation_statement") {
+        if (
+          isFirstCheck &&
+          usedKeys.has(translationKey) &&
+          !definedKeys.has(translationKey)
+        ) {
+          diagnostics.push({
+            severity: DiagnosticSeverity.Warning,
+            range: this.getNodeRange(node),
+            message: `Translation "${translationKey}" is defined after its first use`,
+            source: DiagnosticSource,
+          });
+        }
+        definedKeys.add(translationKey);
+        continue;
+      }
+
+      usedKeys.add(translationKey);
+      if (isFirstCheck && !definedKeys.has(translationKey)) {
+        undefinedUses.push({ key: translationKey, node });
+      }
+    }
+
+    for (const { key, node } of undefinedUses) {
+      diagnostics.push({
+        severity: DiagnosticSeverity.Warning,
+        range: this.getNodeRange(node),
+        message: definedKeys.has(key)
+          ? `Translation "${key}" is used before it is defined, the raw key will be rendered`
+          : `Translation "${key}" is not defined`,
+        source: DiagnosticSource,
+      });
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Reports translation definitions that miss one of the required locales,
+   * or that declare the same locale more than once.
+   */
+  private checkTranslationLocales(filePath: string): Diagnostic[] {
+    const tree = LiquidTreeCache.getInstance().getTree(filePath);
+    if (!tree) {
+      return [];
+    }
+
+    const identifier = new LiquidTagIdentifier();
+    const translationProvider = new TranslationProvider();
+    const diagnostics: Diagnostic[] = [];
+
+    for (const node of tree.rootNode.descendantsOfType(
+      "translation_statement",
+    )) {
+      const translationKey = identifier.identifyNodeKey(node) ?? node.text;
+      const declaredLocales = new Set<string>();
+
+      for (const declaration of translationProvider.getLocaleDeclarations(
+        node,
+      )) {
+        if (declaredLocales.has(declaration.locale)) {
+          diagnostics.push({
+            severity: DiagnosticSeverity.Warning,
+            range: this.getNodeRange(declaration.node),
+            message: `Locale "${declaration.locale}" is declared more than once for translation "${translationKey}"`,
+            source: DiagnosticSource,
+          });
+        }
+        declaredLocales.add(declaration.locale);
+      }
+
+      const missingLocales = this.options.requiredLocales.filter(
+        (locale) => !declaredLocales.has(locale),
+      );
+      if (missingLocales.length > 0) {
+        diagnostics.push({
+          severity: DiagnosticSeverity.Warning,
+          range: this.getNodeRange(node),
+          message: `Translation "${translationKey}" is missing locales: ${missingLocales.join(", ")}`,
+          source: DiagnosticSource,
+        });
+      }
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Follows the includes of a file depth-first looking for a path back to the target file
+   * @param filePath The file to follow
+   * @param targetFilePath The file that would be included circularly
+   * @param chain The include chain walked so far
+   * @param visitedFiles Files already followed without finding the target
+   * @returns The include chain ending at the target file, or null if there is none
+   */
+  private findIncludeCycle(
+    filePath: string,
+    targetFilePath: string,
+    templateDir: string,
+    mapper: TemplatePartsMapper,
+    chain: string[],
+    visitedFiles: Set<string>,
+  ): string[] | null {
+    const currentChain = [...chain, filePath];
+    if (filePath === targetFilePath) {
+      return currentChain;
+    }
+    if (visitedFiles.has(filePath)) {
+      return null;
+    }
+    visitedFiles.add(filePath);
+
+    let includeTags: IncludeTagInfo[];
+    try {
+      includeTags = new IncludeParser().findAllInFile(filePath);
+    } catch (error) {
+      this.logger.warn(`Could not read file: ${filePath}, ${error}`);
+      return null;
+    }
+
+    for (const includeTag of includeTags) {
+      const includedFilePath = mapper.resolveIncludedPartFilePath(
+        includeTag,
+        templateDir,
+      );
+      if (!includedFilePath) {
+        continue;
+      }
+      const cycle = this.findIncludeCycle(
+        includedFilePath,
+        targetFilePath,
+        templateDir,
+        mapper,
+        currentChain,
+        visitedFiles,
+      );
+      if (cycle) {
+        return cycle;
+      }
+    }
+
+    return null;
+  }
+
+  private getNodeRange(node: Parser.SyntaxNode): Range {
+    return {
+      start: {
+        line: node.startPosition.row,
+        character: node.startPosition.column,
+      },
+      end: {
+        line: node.endPosition.row,
+        character: node.endPosition.column,
+      },
+    };
+  }
+
+  private getIncludeRange(includeTag: IncludeTagInfo): Range {
+    return {
+      start: {
+        line: includeTag.startPosition.row,
+        character: includeTag.startPosition.column,
+      },
+      end: {
+        line: includeTag.endPosition.row,
+        character: includeTag.endPosition.column,
+      },
+    };
+  }
+}
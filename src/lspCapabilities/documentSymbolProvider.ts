@@ -0,0 +1,195 @@
+import { Logger } from "../logger";
+import {
+  DocumentSymbol,
+  DocumentSymbolParams,
+  Range,
+  SymbolKind,
+} from "vscode-languageserver/node";
+import { URI } from "vscode-uri";
+import * as Parser from "tree-sitter";
+import { LiquidTreeCache } from "../liquid/liquidTreeCache";
+import { LiquidTagIdentifier } from "../liquid/liquidTagIdentifier";
+import { IncludeParser } from "../liquid/includeParser";
+import { LiquidNodeTypes } from "../liquid/types";
+
+// Blocks shown as containers in the outline, with their nested symbols as children
+const BLOCK_NODE_TYPES: string[] = [
+  LiquidNodeTypes.IfStatement,
+  LiquidNodeTypes.UnlessStatement,
+  LiquidNodeTypes.ForStatement,
+];
+
+const MAX_NAME_LENGTH = 60;
+
+export class DocumentSymbolProvider {
+  private textDocumentUri: DocumentSymbolParams["textDocument"]["uri"];
+  private logger: Logger;
+  private identifier = new LiquidTagIdentifier();
+  private includeParser = new IncludeParser();
+
+  constructor(params: DocumentSymbolParams) {
+    this.textDocumentUri = params.textDocument.uri;
+    this.logger = new Logger("DocumentSymbolProvider");
+  }
+
+  public async handleDocumentSymbolRequest(): Promise<DocumentSymbol[] | null> {
+    const filePath = URI.parse(this.textDocumentUri).fsPath;
+    const tree = LiquidTreeCache.getInstance().getTree(filePath);
+    if (!tree) {
+      this.logger.warn(`Failed to parse document: ${this.textDocumentUri}`);
+      return null;
+    }
+
+    const symbols = this.collectSymbols(tree.rootNode);
+    this.logger.debug(
+      `Found ${symbols.length} top-level symbols in ${this.textDocumentUri}`,
+    );
+    return symbols;
+  }
+
+  /**
+   * Collects the symbols found among the descendants of a node.
+   * Nodes that are not symbols are traversed, so their symbols are attached
+   * to the closest enclosing symbol.
+   */
+  private collectSymbols(node: Parser.SyntaxNode): DocumentSymbol[] {
+    const symbols: DocumentSymbol[] = [];
+
+    for (const child of node.namedChildren) {
+      const symbol = this.createSymbol(child);
+      if (symbol) {
+        symbols.push(symbol);
+      } else {
+        symbols.push(...this.collectSymbols(child));
+      }
+    }
+
+    return symbols;
+  }
+
+  private createSymbol(node: Parser.SyntaxNode): DocumentSymbol | null {
+    switch (node.type) {
+      case LiquidNodeTypes.AssignmentStatement:
+        return this.buildSymbol(
+          node,
+          node.childForFieldName("variable_name"),
+          SymbolKind.Variable,
+          "assign",
+        );
+
+      case LiquidNodeTypes.CaptureStatement:
+        return this.buildSymbol(
+          node,
+          node.childForFieldName("variable"),
+          SymbolKind.Variable,
+          "capture",
+          this.collectSymbols(node),
+        );
+
+      case LiquidNodeTypes.TranslationStatement:
+        return this.buildSymbol(
+          node,
+          node.childForFieldName("key"),
+          SymbolKind.String,
+          "t=",
+        );
+
+      case LiquidNodeTypes.ResultStatement: {
+        const resultName = this.identifier.identifyResultName(node);
+        return resultName
+          ? this.buildSymbol(
+              node,
+              null,
+              SymbolKind.Field,
+              "result",
+              [],
+              resultName,
+            )
+          : null;
+      }
+
+      case LiquidNodeTypes.IncludeStatement: {
+        const includeTag = this.includeParser.identifyIncludeTag(node);
+        return includeTag
+          ? this.buildSymbol(
+              node,
+              null,
+              SymbolKind.File,
+              "include",
+              [],
+              includeTag.path,
+            )
+          : null;
+      }
+    }
+
+    if (BLOCK_NODE_TYPES.includes(node.type)) {
+      return this.buildSymbol(
+        node,
+        null,
+        SymbolKind.Namespace,
+        undefined,
+        this.collectSymbols(node),
+        this.getTagHeader(node),
+      );
+    }
+
+    return null;
+  }
+
+  /**
+   * @param nameNode The node holding the symbol name, also used as selection range
+   * @param name The symbol name when there is no name node
+   */
+  private buildSymbol(
+    node: Parser.SyntaxNode,
+    nameNode: Parser.SyntaxNode | null,
+    kind: SymbolKind,
+    detail?: string,
+    children: DocumentSymbol[] = [],
+    name?: string,
+  ): DocumentSymbol | null {
+    const symbolName = (nameNode?.text ?? name)?.replace(/^['"]|['"]$/g, "");
+    if (!symbolName) {
+      return null;
+    }
+
+    const range = this.getNodeRange(node);
+    return {
+      name: symbolName,
+      detail,
+      kind,
+      range,
+      selectionRange: nameNode ? this.getNodeRange(nameNode) : range,
+      children,
+    };
+  }
+
+  /**
+   * Gets the opening tag of a block, e.g. "{% if amount > 0 %}"
+   */
+  private getTagHeader(node: Parser.SyntaxNode): string {
+    const text = node.text;
+    const tagEnd = text.indexOf("%}");
+    const header = (tagEnd === -1 ? text : text.substring(0, tagEnd + 2))
+      .replace(/\s+/g, " ")
+      .trim();
+
+    return header.length > MAX_NAME_LENGTH
+      ? `${header.substring(0, MAX_NAME_LENGTH)}...`
+      : header;
+  }
+
+  private getNodeRange(node: Parser.SyntaxNode): Range {
+    return {
+      start: {
+        line: node.startPosition.row,
+        character: node.startPosition.column,
+      },
+      end: {
+        line: node.endPosition.row,
+        character: node.endPosition.column,
+      },
+    };
+  }
+}
@@ -0,0 +1,113 @@
+import { Logger } from "../logger";
+import {
+  FoldingRange,
+  FoldingRangeKind,
+  FoldingRangeParams,
+} from "vscode-languageserver/node";
+import { URI } from "vscode-uri";
+import * as Parser from "tree-sitter";
+import { LiquidTreeCache } from "../liquid/liquidTreeCache";
+import { LiquidNodeTypes } from "../liquid/types";
+
+// Blocks folded from their opening tag, keeping the closing tag visible
+const FOLDABLE_NODE_TYPES: string[] = [
+  LiquidNodeTypes.IfStatement,
+  LiquidNodeTypes.UnlessStatement,
+  LiquidNodeTypes.ForStatement,
+  LiquidNodeTypes.CaptureStatement,
+  "case_statement",
+  "comment",
+  // Silverfin blocks such as {% stripnewlines %} or {% fori %}
+  "custom_paired_statement",
+];
+
+export class FoldingRangeProvider {
+  private textDocumentUri: FoldingRangeParams["textDocument"]["uri"];
+  private logger: Logger;
+
+  constructor(params: FoldingRangeParams) {
+    this.textDocumentUri = params.textDocument.uri;
+    this.logger = new Logger("FoldingRangeProvider");
+  }
+
+  public async handleFoldingRangeRequest(): Promise<FoldingRange[] | null> {
+    const filePath = URI.parse(this.textDocumentUri).fsPath;
+    const tree = LiquidTreeCache.getInstance().getTree(filePath);
+    if (!tree) {
+      this.logger.warn(`Failed to parse document: ${this.textDocumentUri}`);
+      return null;
+    }
+
+    const ranges = [
+      ...this.collectBlockRanges(tree.rootNode),
+      ...this.collectTranslationRanges(tree.rootNode),
+    ];
+    this.logger.debug(
+      `Found ${ranges.length} folding ranges in ${this.textDocumentUri}`,
+    );
+    return ranges;
+  }
+
+  private collectBlockRanges(rootNode: Parser.SyntaxNode): FoldingRange[] {
+    const ranges: FoldingRange[] = [];
+
+    for (const node of rootNode.descendantsOfType(FOLDABLE_NODE_TYPES)) {
+      const startLine = node.startPosition.row;
+      const endLine = node.endPosition.row - 1;
+      if (endLine > startLine) {
+        ranges.push({
+          startLine,
+          endLine,
+          kind: node.type === "comment" ? FoldingRangeKind.Comment : undefined,
+        });
+      }
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Folds runs of {% t= %} definitions on consecutive lines, which often fill
+   * the top of a template
+   */
+  private collectTranslationRanges(
+    rootNode: Parser.SyntaxNode,
+  ): FoldingRange[] {
+    const ranges: FoldingRange[] = [];
+    let runStart: Parser.SyntaxNode | null = null;
+    let runEnd: Parser.SyntaxNode | null = null;
+
+    const closeRun = () => {
+      if (
+        runStart &&
+        runEnd &&
+        runEnd.endPosition.row > runStart.startPosition.row
+      ) {
+        ranges.push({
+          startLine: runStart.startPosition.row,
+          endLine: runEnd.endPosition.row,
+          kind: FoldingRangeKind.Region,
+        });
+      }
+      runStart = null;
+      runEnd = null;
+    };
+
+    for (const node of rootNode.descendantsOfType(
+      LiquidNodeTypes.TranslationStatement,
+    )) {
+      if (
+        !runEnd ||
+        node.parent?.id !== runEnd.parent?.id ||
+        node.startPosition.row > runEnd.endPosition.row + 1
+      ) {
+        closeRun();
+        runStart = node;
+      }
+      runEnd = node;
+    }
+    closeRun();
+
+    return ranges;
+  }
+}
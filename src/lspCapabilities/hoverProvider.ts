@@ -1,11 +1,21 @@
+import * as Parser from "tree-sitter";
+import * as path from "path";
 import { DocumentationProvider } from "./documentationProvider";
 import { Logger } from "../logger";
 import { HoverParams } from "vscode-languageserver/node";
 import { URI } from "vscode-uri";
-import * as fs from "fs";
 import { TranslationProvider } from "./translationProvider";
+import { VariableProvider } from "./variableProvider";
+import { PartPreviewProvider } from "./partPreviewProvider";
 import { LiquidTagIdentifier } from "../liquid/liquidTagIdentifier";
 import { LiquidTagFinder } from "../liquid/liquidTagFinder";
+import { DocumentSource } from "../utils/documentSource";
+import { IncludeParser } from "../liquid/includeParser";
+import { ResultReferenceParser } from "../liquid/resultReferenceParser";
+import { ResultReferenceInfo } from "../liquid/types";
+import { parseTemplateUri } from "../utils/templateUriParser";
+import { TemplatePartsMapper } from "../templates/templatePartsMapper";
+import { TemplateWorkspaceScanner } from "../templates/templateWorkspaceScanner";
 
 export class HoverProvider {
   private workspaceRoot: string | null;
@@ -30,7 +40,7 @@ export class HoverProvider {
 
   public async handleHoverRequest(): Promise<string | null> {
     const filePath = URI.parse(this.textDocumentUri).fsPath;
-    const document = fs.readFileSync(filePath, "utf8");
+    const document = DocumentSource.getInstance().readFile(filePath);
 
     if (!document) {
       this.logger.error(`Document not found for URI: ${this.textDocumentUri}`);
@@ -45,50 +55,88 @@ export class HoverProvider {
       this.position.line,
       this.position.character,
     );
-    if (!liquidNode) {
-      this.logger.debug("No Liquid node identified at cursor position");
-      return null;
-    }
 
-    // TRANSLATIONS
-
-    if (liquidNode.type === "translation_expression") {
-      this.logger.debug(`Found translation expression: ${liquidNode}`);
-
-      const translationKey = identifier.identifyNodeKey(liquidNode);
-      if (translationKey && this.workspaceRoot) {
-        const finder = new LiquidTagFinder();
-        const nodes = await finder.findAllNodesBeforePosition(
-          this.textDocumentUri,
-          this.position.line,
-          translationKey,
-          ["translation_statement"],
-          this.workspaceRoot,
-        );
-        if (!nodes) {
-          this.logger.debug(
-            `No translation nodes found for key: ${translationKey}`,
+    if (liquidNode) {
+      // TRANSLATIONS
+
+      if (liquidNode.type === "translation_expression") {
+        this.logger.debug(`Found translation expression: ${liquidNode}`);
+
+        const translationKey = identifier.identifyNodeKey(liquidNode);
+        if (translationKey && this.workspaceRoot) {
+          const finder = new LiquidTagFinder();
+          const nodes = await finder.findAllNodesBeforePosition(
+            this.textDocumentUri,
+            this.position.line,
+            this.position.character,
+            translationKey,
+            ["translation_statement"],
+            this.workspaceRoot,
           );
-          return null;
+          if (!nodes) {
+            this.logger.debug(
+              `No translation nodes found for key: ${translationKey}`,
+            );
+            return null;
+          }
+          const lastNode = nodes.length > 0 ? nodes[nodes.length - 1] : null;
+
+          if (lastNode) {
+            const translationProvider = new TranslationProvider();
+            return translationProvider.extractInfo(lastNode.node);
+          }
         }
-        const lastNode = nodes.length > 0 ? nodes[nodes.length - 1] : null;
+      }
 
-        if (lastNode) {
-          const translationProvider = new TranslationProvider();
-          return translationProvider.extractInfo(lastNode.node);
+      // INCLUDES
+
+      if (liquidNode.type === "include_statement" && this.workspaceRoot) {
+        const includeHover = this.handleIncludeTag(liquidNode);
+        if (includeHover) {
+          return includeHover;
         }
       }
     }
 
+    // RESULT LOOKUPS (period.reconciliations.<handle>.results.<name>)
+
+    const resultReference = new ResultReferenceParser().identifyAtPosition(
+      document,
+      this.position.line,
+      this.position.character,
+    );
+    if (resultReference && this.workspaceRoot) {
+      const resultHover = await this.handleResultReference(resultReference);
+      if (resultHover) {
+        return resultHover;
+      }
+    }
+
+    // VARIABLES
+
+    const variableNode = identifier.identifyVariable(
+      document,
+      this.position.line,
+      this.position.character,
+    );
+    if (variableNode && this.workspaceRoot) {
+      const variableHover = await this.handleVariable(variableNode.text);
+      if (variableHover) {
+        return variableHover;
+      }
+    }
+
     // DOCUMENTATION
 
-    const tagIdentifier = identifier.identifyTagName(liquidNode);
+    if (liquidNode) {
+      const tagIdentifier = identifier.identifyTagName(liquidNode);
 
-    if (tagIdentifier) {
-      const tagHoverContent =
-        this.documentationProvider.getTagHoverContent(tagIdentifier);
-      if (tagHoverContent) {
-        return tagHoverContent;
+      if (tagIdentifier) {
+        const tagHoverContent =
+          this.documentationProvider.getTagHoverContent(tagIdentifier);
+        if (tagHoverContent) {
+          return tagHoverContent;
+        }
       }
     }
 
@@ -96,4 +144,104 @@ export class HoverProvider {
     this.logger.debug("No hover information available");
     return null;
   }
+
+  /**
+   * Previews the part included by an include tag. Text parts included from a
+   * shared part depend on the including template, so they are not resolved.
+   * @returns The hover content, or null when the part cannot be resolved
+   */
+  private handleIncludeTag(liquidNode: Parser.SyntaxNode): string | null {
+    const includeTag = new IncludeParser().identifyIncludeTag(liquidNode);
+    const templateInfo = parseTemplateUri(this.textDocumentUri);
+    if (
+      !includeTag ||
+      !templateInfo ||
+      (templateInfo.templateType === "sharedPart" &&
+        includeTag.type === "textPart")
+    ) {
+      return null;
+    }
+
+    const templateDir = new TemplateWorkspaceScanner(
+      this.workspaceRoot!,
+    ).getTemplateDirectory(
+      templateInfo.templateType,
+      templateInfo.templateName,
+    );
+    const partPath = new TemplatePartsMapper(
+      this.workspaceRoot!,
+    ).resolveIncludedPartFilePath(includeTag, templateDir);
+    if (!partPath) {
+      this.logger.debug(
+        `File not found for include tag: ${includeTag.type}/${includeTag.name}`,
+      );
+      return null;
+    }
+
+    return new PartPreviewProvider().extractInfo(
+      includeTag,
+      partPath,
+      this.workspaceRoot!,
+    );
+  }
+
+  /**
+   * Shows the {% result %} tags defining another reconciliation's result
+   * @returns The hover content, or null when the result is not defined
+   */
+  private async handleResultReference(
+    resultReference: ResultReferenceInfo,
+  ): Promise<string | null> {
+    const { handle, resultName } = resultReference;
+    const nodes = await new LiquidTagFinder().findResultDefinitions(
+      handle,
+      resultName,
+      this.workspaceRoot!,
+    );
+    if (!nodes || nodes.length === 0) {
+      this.logger.debug(
+        `No result definition found for: ${handle}.${resultName}`,
+      );
+      return null;
+    }
+
+    const result: string[] = [`Result: ${resultName} (${handle})`, ""];
+    for (const { node, templatePart } of nodes) {
+      result.push(
+        "```liquid",
+        node.text.trim(),
+        "```",
+        `Defined in \`${path.relative(this.workspaceRoot!, templatePart.fileFullPath)}\`, line ${node.startPosition.row + 1}`,
+        "",
+      );
+    }
+    return result.join("\n").trimEnd();
+  }
+
+  /**
+   * Shows the definitions a variable may get its value from
+   * @param variableName The variable under the cursor
+   * @returns The hover content, or null when no definition precedes the position
+   */
+  private async handleVariable(variableName: string): Promise<string | null> {
+    const definitions =
+      await new LiquidTagFinder().findAllVariableDefinitionsBeforePosition(
+        this.textDocumentUri,
+        this.position.line,
+        this.position.character,
+        variableName,
+        this.workspaceRoot!,
+      );
+    if (!definitions || definitions.length === 0) {
+      this.logger.debug(`No variable definitions found for: ${variableName}`);
+      return null;
+    }
+
+    const variableProvider = new VariableProvider();
+    return variableProvider.extractInfo(
+      variableName,
+      variableProvider.selectCandidates(definitions),
+      this.workspaceRoot!,
+    );
+  }
 }
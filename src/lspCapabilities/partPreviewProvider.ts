@@ -0,0 +1,137 @@
+import * as Parser from "tree-sitter";
+import * as path from "path";
+import { Logger } from "../logger";
+import { IncludeTagInfo } from "../liquid/types";
+import { LiquidTagFinder } from "../liquid/liquidTagFinder";
+import { LiquidTagIdentifier } from "../liquid/liquidTagIdentifier";
+import { LiquidTreeCache } from "../liquid/liquidTreeCache";
+import { DocumentSource } from "../utils/documentSource";
+import { readTemplateConfig } from "../utils/templateConfigReader";
+
+const MAX_PREVIEW_LINES = 10;
+
+export class PartPreviewProvider {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger("PartPreviewProvider");
+  }
+
+  /**
+   * Builds the hover content of an include tag: the resolved file, its first
+   * lines, and the variables, translations and results the part defines
+   * @param includeTag The include tag being hovered
+   * @param partPath The resolved file of the included part
+   * @param workspaceRoot Used to display the file path relative to the workspace
+   *
+   * @example {% include "shared/vat_table" %}
+   *
+   * This should return:
+   * Shared part: vat_table
+   *
+   * `shared_parts/vat_table/vat_table.liquid`, used in 2 templates
+   *
+   * ```liquid
+   * {% assign vat_total = 0 %}
+   * ...
+   * ```
+   * Variables: `vat_total`
+   */
+  public extractInfo(
+    includeTag: IncludeTagInfo,
+    partPath: string,
+    workspaceRoot: string,
+  ): string {
+    const isSharedPart = includeTag.type === "sharedPart";
+    const result: string[] = [
+      `${isSharedPart ? "Shared part" : "Text part"}: ${includeTag.name}`,
+      "",
+    ];
+
+    let location = `\`${path.relative(workspaceRoot, partPath)}\``;
+    if (isSharedPart) {
+      const usedIn = readTemplateConfig(path.dirname(partPath))?.used_in;
+      const usedInCount = Array.isArray(usedIn) ? usedIn.length : 0;
+      location += `, used in ${usedInCount} ${usedInCount === 1 ? "template" : "templates"}`;
+    }
+    result.push(location, "");
+
+    let text: string;
+    try {
+      text = DocumentSource.getInstance().readFile(partPath);
+    } catch (error) {
+      this.logger.warn(`Could not read file: ${partPath}, ${error}`);
+      return result.join("\n").trimEnd();
+    }
+
+    const lines = text.trimEnd().split("\n");
+    result.push(
+      "```liquid",
+      ...lines.slice(0, MAX_PREVIEW_LINES),
+      ...(lines.length > MAX_PREVIEW_LINES ? ["..."] : []),
+      "```",
+    );
+
+    const tree = LiquidTreeCache.getInstance().getTree(partPath);
+    if (tree) {
+      result.push(...this.summarizeDefinitions(tree));
+    }
+
+    return result.join("\n");
+  }
+
+  /**
+   * Lists the variables, translation keys and results defined in a part
+   */
+  private summarizeDefinitions(tree: Parser.Tree): string[] {
+    const finder = new LiquidTagFinder();
+    const identifier = new LiquidTagIdentifier();
+    const variables = new Set<string>();
+    const translations = new Set<string>();
+    const results = new Set<string>();
+
+    for (const node of tree.rootNode.descendantsOfType([
+      "assignment_statement",
+      "capture_statement",
+      "for_loop_statement",
+      "translation_statement",
+      "result_statement",
+    ])) {
+      const name =
+        node.type === "translation_statement"
+          ? identifier.identifyNodeKey(node)
+          : node.type === "result_statement"
+            ? identifier.identifyResultName(node)
+            : finder.getDefinedVariableName(node);
+      if (!name) {
+        continue;
+      }
+
+      if (node.type === "translation_statement") {
+        translations.add(name);
+      } else if (node.type === "result_statement") {
+        results.add(name);
+      } else {
+        variables.add(name);
+      }
+    }
+
+    const summary: string[] = [];
+    for (const [label, names] of [
+      ["Variables", variables],
+      ["Translations", translations],
+      ["Results", results],
+    ] as const) {
+      if (names.size > 0) {
+        summary.push(
+          `${label}: ${Array.from(names, (name) => `\`${name}\``).join(", ")}`,
+        );
+      }
+    }
+
+    this.logger.debug(
+      `Part defines ${variables.size} variables, ${translations.size} translations and ${results.size} results`,
+    );
+    return summary;
+  }
+}
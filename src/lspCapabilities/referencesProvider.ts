@@ -0,0 +1,334 @@
+import { Logger } from "../logger";
+import { Location, ReferenceParams } from "vscode-languageserver/node";
+import { URI } from "vscode-uri";
+import * as Parser from "tree-sitter";
+import { LiquidTagIdentifier } from "../liquid/liquidTagIdentifier";
+import { LiquidTagFinder } from "../liquid/liquidTagFinder";
+import { IncludeParser } from "../liquid/includeParser";
+import { ResultReferenceParser } from "../liquid/resultReferenceParser";
+import { CustomDropParser } from "../liquid/customDropParser";
+import { CustomDropInfo, NodeInTemplate } from "../liquid/types";
+import { parseTemplateUri } from "../utils/templateUriParser";
+import { TemplateWorkspaceScanner } from "../templates/templateWorkspaceScanner";
+import { DocumentSource } from "../utils/documentSource";
+import { CustomDropIndex } from "../templates/customDropIndex";
+
+export class ReferencesProvider {
+  private workspaceRoot: string | null;
+  private textDocumentUri: ReferenceParams["textDocument"]["uri"];
+  private position: ReferenceParams["position"];
+  private includeDeclaration: boolean;
+  private logger: Logger;
+
+  constructor(params: ReferenceParams, workspaceRoot: string | null) {
+    this.workspaceRoot = workspaceRoot || null;
+    this.textDocumentUri = params.textDocument.uri;
+    this.position = params.position;
+    this.includeDeclaration = params.context.includeDeclaration;
+    this.logger = new Logger("ReferencesProvider");
+  }
+
+  public async handleReferencesRequest(): Promise<Location[] | null> {
+    if (!this.workspaceRoot) {
+      return null;
+    }
+
+    const filePath = URI.parse(this.textDocumentUri).fsPath;
+    const fileContent = DocumentSource.getInstance().readFile(filePath);
+
+    const identifier = new LiquidTagIdentifier();
+    const liquidNode = identifier.identifyNode(
+      fileContent,
+      this.position.line,
+      this.position.character,
+    );
+
+    if (liquidNode) {
+      // INCLUDE TAG
+      if (liquidNode.type === "include_statement") {
+        return this.handleIncludeTag(liquidNode);
+      }
+
+      // TRANSLATION TAG (usage or definition)
+      if (
+        liquidNode.type === "translation_expression" ||
+        liquidNode.type === "translation_statement"
+      ) {
+        return this.handleTranslationKey(liquidNode);
+      }
+
+      // RESULT TAG
+      if (liquidNode.type === "result_statement") {
+        return this.handleResultStatement(liquidNode);
+      }
+    }
+
+    // RESULT LOOKUP (period.reconciliations.<handle>.results.<name>)
+    const resultReference = new ResultReferenceParser().identifyAtPosition(
+      fileContent,
+      this.position.line,
+      this.position.character,
+    );
+    if (resultReference) {
+      return this.findResultReferences(
+        resultReference.handle,
+        resultReference.resultName,
+      );
+    }
+
+    // CUSTOM DROP (custom.<namespace>.<key>)
+    const customDrop = new CustomDropParser().identifyAtPosition(
+      fileContent,
+      this.position.line,
+      this.position.character,
+    );
+    if (customDrop) {
+      return this.handleCustomDrop(customDrop);
+    }
+
+    // VARIABLE (usage or definition)
+    const variableNode = identifier.identifyVariableOrDefinition(
+      fileContent,
+      this.position.line,
+      this.position.character,
+    );
+    if (variableNode) {
+      return this.handleVariable(variableNode);
+    }
+
+    // PART: references to the current file when it is a part itself
+    const templateInfo = parseTemplateUri(this.textDocumentUri);
+    if (templateInfo && templateInfo.partType !== "main") {
+      return this.findPartReferences(
+        templateInfo.partType,
+        templateInfo.partName,
+      );
+    }
+
+    this.logger.debug(
+      `No references handler for node type: ${liquidNode?.type || "unknown"}`,
+    );
+    return null;
+  }
+
+  /**
+   * Lists every include of the part targeted by an include tag
+   * @param liquidNode The include_statement node under the cursor
+   */
+  private handleIncludeTag(liquidNode: Parser.SyntaxNode): Location[] | null {
+    const includeTag = new IncludeParser().identifyIncludeTag(liquidNode);
+    if (!includeTag) {
+      this.logger.debug("Include tag has no static path");
+      return null;
+    }
+
+    return this.findPartReferences(includeTag.type, includeTag.name);
+  }
+
+  /**
+   * Lists every include of a part. Text parts are looked up in the current
+   * template, shared parts in the whole workspace.
+   */
+  private findPartReferences(
+    partType: "textPart" | "sharedPart",
+    partName: string,
+  ): Location[] | null {
+    const templateInfo = parseTemplateUri(this.textDocumentUri);
+    if (partType === "textPart" && !templateInfo) {
+      return null;
+    }
+
+    const scanner = new TemplateWorkspaceScanner(this.workspaceRoot!);
+    const references = scanner.findIncludeReferences(
+      partType,
+      partName,
+      templateInfo ?? undefined,
+    );
+
+    this.logger.debug(
+      `Found ${references.length} references for ${partType}: ${partName}`,
+    );
+    return references.map(({ fileFullPath, includeTag }) => ({
+      uri: URI.file(fileFullPath).toString(),
+      range: {
+        start: {
+          line: includeTag.startPosition.row,
+          character: includeTag.startPosition.column,
+        },
+        end: {
+          line: includeTag.endPosition.row,
+          character: includeTag.endPosition.column,
+        },
+      },
+    }));
+  }
+
+  /**
+   * Lists the lookups of the result defined by a {% result %} tag. Only results
+   * of reconciliation texts can be looked up by other templates.
+   * @param liquidNode The result_statement node under the cursor
+   */
+  private async handleResultStatement(
+    liquidNode: Parser.SyntaxNode,
+  ): Promise<Location[] | null> {
+    const resultName = new LiquidTagIdentifier().identifyResultName(liquidNode);
+    const templateInfo = parseTemplateUri(this.textDocumentUri);
+    if (!resultName || templateInfo?.templateType !== "reconciliationText") {
+      this.logger.debug("Result tag is not part of a reconciliation text");
+      return null;
+    }
+
+    const handle = new TemplateWorkspaceScanner(
+      this.workspaceRoot!,
+    ).getReconciliationHandle(templateInfo.templateName);
+    return this.findResultReferences(handle, resultName);
+  }
+
+  /**
+   * Lists every lookup of a reconciliation's result across the workspace,
+   * preceded by the {% result %} tags defining it when declarations are included
+   */
+  private async findResultReferences(
+    handle: string,
+    resultName: string,
+  ): Promise<Location[]> {
+    const definitions = this.includeDeclaration
+      ? await new LiquidTagFinder().findResultDefinitions(
+          handle,
+          resultName,
+          this.workspaceRoot!,
+        )
+      : null;
+
+    const references = new TemplateWorkspaceScanner(
+      this.workspaceRoot!,
+    ).findResultReferences(handle, resultName);
+
+    this.logger.debug(
+      `Found ${references.length} references for result: ${handle}.${resultName}`,
+    );
+    return [
+      ...this.toLocations(definitions ?? []),
+      ...references.map(({ fileFullPath, resultReference }) => ({
+        uri: URI.file(fileFullPath).toString(),
+        range: {
+          start: {
+            line: resultReference.startPosition.row,
+            character: resultReference.startPosition.column,
+          },
+          end: {
+            line: resultReference.endPosition.row,
+            character: resultReference.endPosition.column,
+          },
+        },
+      })),
+    ];
+  }
+
+  /**
+   * Lists every read and rollforward of a custom drop in the current template,
+   * and its {% input %} tags when declarations are included
+   */
+  private async handleCustomDrop(
+    customDrop: CustomDropInfo,
+  ): Promise<Location[] | null> {
+    const templateInfo = parseTemplateUri(this.textDocumentUri);
+    if (!templateInfo) {
+      return null;
+    }
+
+    const drops = await CustomDropIndex.getInstance(
+      this.workspaceRoot!,
+    ).getDrops(templateInfo.templateType, templateInfo.templateName);
+    const references = drops.filter(
+      ({ drop }) =>
+        drop.namespace === customDrop.namespace &&
+        drop.key === customDrop.key &&
+        (this.includeDeclaration || drop.usage !== "input"),
+    );
+
+    this.logger.debug(
+      `Found ${references.length} references for custom drop: ${customDrop.namespace}.${customDrop.key}`,
+    );
+    return references.map(({ fileFullPath, drop }) => ({
+      uri: URI.file(fileFullPath).toString(),
+      range: {
+        start: {
+          line: drop.startPosition.row,
+          character: drop.startPosition.column,
+        },
+        end: {
+          line: drop.endPosition.row,
+          character: drop.endPosition.column,
+        },
+      },
+    }));
+  }
+
+  private async handleTranslationKey(
+    liquidNode: Parser.SyntaxNode,
+  ): Promise<Location[] | null> {
+    const translationKey = new LiquidTagIdentifier().identifyNodeKey(
+      liquidNode,
+    );
+    if (!translationKey) {
+      return null;
+    }
+
+    const finder = new LiquidTagFinder();
+    const nodes = await finder.findAllTranslationKeyOccurrences(
+      this.textDocumentUri,
+      translationKey,
+      this.includeDeclaration,
+      this.workspaceRoot!,
+    );
+    if (!nodes) {
+      this.logger.debug(`No references found for key: ${translationKey}`);
+      return null;
+    }
+
+    this.logger.debug(
+      `Found ${nodes.length} references for translation: ${translationKey}`,
+    );
+    return this.toLocations(nodes);
+  }
+
+  private async handleVariable(
+    liquidNode: Parser.SyntaxNode,
+  ): Promise<Location[] | null> {
+    const variableName = liquidNode.text;
+
+    const finder = new LiquidTagFinder();
+    const nodes = await finder.findAllVariableOccurrences(
+      this.textDocumentUri,
+      variableName,
+      this.includeDeclaration,
+      this.workspaceRoot!,
+    );
+    if (!nodes) {
+      this.logger.debug(`No references found for variable: ${variableName}`);
+      return null;
+    }
+
+    this.logger.debug(
+      `Found ${nodes.length} references for variable: ${variableName}`,
+    );
+    return this.toLocations(nodes);
+  }
+
+  private toLocations(nodes: NodeInTemplate[]): Location[] {
+    return nodes.map(({ node, templatePart }) => ({
+      uri: URI.file(templatePart.fileFullPath).toString(),
+      range: {
+        start: {
+          line: node.startPosition.row,
+          character: node.startPosition.column,
+        },
+        end: {
+          line: node.endPosition.row,
+          character: node.endPosition.column,
+        },
+      },
+    }));
+  }
+}
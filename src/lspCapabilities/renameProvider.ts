@@ -0,0 +1,278 @@
+import { Logger } from "../logger";
+import {
+  ErrorCodes,
+  PrepareRenameParams,
+  Range,
+  RenameParams,
+  ResponseError,
+  TextEdit,
+  WorkspaceEdit,
+} from "vscode-languageserver/node";
+import { URI } from "vscode-uri";
+import * as Parser from "tree-sitter";
+import * as path from "path";
+import { LiquidTagIdentifier } from "../liquid/liquidTagIdentifier";
+import { LiquidTagFinder } from "../liquid/liquidTagFinder";
+import { NodeInTemplate } from "../liquid/types";
+import { TemplateWorkspaceScanner } from "../templates/templateWorkspaceScanner";
+import { TemplatePartsCollectionManager } from "../templates/templatePartsCollectionManager";
+import { DocumentSource } from "../utils/documentSource";
+
+interface RenameTarget {
+  kind: "variable" | "translationKey";
+  name: string;
+  range: Range; // range of the name under the cursor, quotes excluded
+}
+
+export class RenameProvider {
+  private workspaceRoot: string | null;
+  private textDocumentUri: RenameParams["textDocument"]["uri"];
+  private position: RenameParams["position"];
+  private logger: Logger;
+
+  constructor(
+    params: RenameParams | PrepareRenameParams,
+    workspaceRoot: string | null,
+  ) {
+    this.workspaceRoot = workspaceRoot || null;
+    this.textDocumentUri = params.textDocument.uri;
+    this.position = params.position;
+    this.logger = new Logger("RenameProvider");
+  }
+
+  /**
+   * Checks that the symbol under the cursor can be renamed
+   * @returns The range and current name of the symbol, or null if it cannot be renamed
+   */
+  public async handlePrepareRenameRequest(): Promise<{
+    range: Range;
+    placeholder: string;
+  } | null> {
+    const target = this.identifyTarget();
+    if (!target) {
+      this.logger.debug("Nothing to rename at cursor position");
+      return null;
+    }
+
+    return { range: target.range, placeholder: target.name };
+  }
+
+  /**
+   * Renames the variable or translation key under the cursor in every file of
+   * the template's include chain, and from a shared part in every template
+   * including it.
+   * Refuses when one of the files is a shared part also included by other templates,
+   * or when a variable is also used in a context where it is not recognized.
+   * @param newName The new name
+   */
+  public async handleRenameRequest(
+    newName: string,
+  ): Promise<WorkspaceEdit | ResponseError<void> | null> {
+    if (!this.workspaceRoot) {
+      return null;
+    }
+
+    const target = this.identifyTarget();
+    if (!target) {
+      this.logger.debug("Nothing to rename at cursor position");
+      return null;
+    }
+
+    const validName =
+      target.kind === "variable" ? /^[A-Za-z_][\w-]*$/ : /^[^"'\s]+$/;
+    if (!validName.test(newName)) {
+      return new ResponseError(
+        ErrorCodes.InvalidParams,
+        `"${newName}" is not a valid ${target.kind === "variable" ? "variable name" : "translation key"}`,
+      );
+    }
+
+    const finder = new LiquidTagFinder();
+    const occurrences =
+      target.kind === "variable"
+        ? await finder.findAllVariableOccurrences(
+            this.textDocumentUri,
+            target.name,
+            true,
+            this.workspaceRoot,
+          )
+        : await finder.findAllTranslationKeyOccurrences(
+            this.textDocumentUri,
+            target.name,
+            true,
+            this.workspaceRoot,
+          );
+    if (!occurrences) {
+      return null;
+    }
+
+    if (target.kind === "variable") {
+      const unresolved = await finder.findUnresolvedVariableIdentifiers(
+        this.textDocumentUri,
+        target.name,
+        this.workspaceRoot,
+      );
+      if (unresolved && unresolved.length > 0) {
+        const { node, templatePart } = unresolved[0];
+        return new ResponseError(
+          ErrorCodes.InvalidRequest,
+          `Cannot rename "${target.name}": it is also used where it cannot be renamed safely (${path.relative(this.workspaceRoot, templatePart.fileFullPath)}, line ${node.startPosition.row + 1})`,
+        );
+      }
+    }
+
+    const sharedUsers =
+      await this.findOtherTemplatesUsingSharedParts(occurrences);
+    if (sharedUsers.length > 0) {
+      return new ResponseError(
+        ErrorCodes.InvalidRequest,
+        `Cannot rename "${target.name}": it appears in shared parts also used by ${sharedUsers.join(", ")}`,
+      );
+    }
+
+    const changes: { [uri: string]: TextEdit[] } = {};
+    for (const { node, templatePart } of occurrences) {
+      const uri = URI.file(templatePart.fileFullPath).toString();
+      const range =
+        target.kind === "variable"
+          ? this.getNodeRange(node)
+          : this.getStringContentRange(node);
+      (changes[uri] ??= []).push(TextEdit.replace(range, newName));
+    }
+
+    this.logger.debug(
+      `Renaming ${target.kind} "${target.name}" to "${newName}" in ${occurrences.length} places`,
+    );
+    return { changes };
+  }
+
+  /**
+   * Identifies the variable or translation key under the cursor
+   */
+  private identifyTarget(): RenameTarget | null {
+    const filePath = URI.parse(this.textDocumentUri).fsPath;
+    const fileContent = DocumentSource.getInstance().readFile(filePath);
+
+    const identifier = new LiquidTagIdentifier();
+    const liquidNode = identifier.identifyNode(
+      fileContent,
+      this.position.line,
+      this.position.character,
+    );
+
+    if (
+      liquidNode &&
+      (liquidNode.type === "translation_expression" ||
+        liquidNode.type === "translation_statement")
+    ) {
+      const keyNode = liquidNode.childForFieldName("key");
+      const translationKey = identifier.identifyNodeKey(liquidNode);
+      if (keyNode && translationKey) {
+        return {
+          kind: "translationKey",
+          name: translationKey,
+          range: this.getStringContentRange(keyNode),
+        };
+      }
+    }
+
+    const variableNode = identifier.identifyVariableOrDefinition(
+      fileContent,
+      this.position.line,
+      this.position.character,
+    );
+    if (variableNode) {
+      return {
+        kind: "variable",
+        name: variableNode.text,
+        range: this.getNodeRange(variableNode),
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Lists the templates outside the renamed ones that include a shared part
+   * containing one of the occurrences. Renaming from a shared part covers every
+   * template including it.
+   * @returns Template keys in the format "templateType/templateName"
+   */
+  private async findOtherTemplatesUsingSharedParts(
+    occurrences: NodeInTemplate[],
+  ): Promise<string[]> {
+    const templates = new LiquidTagFinder().findRenderingTemplates(
+      this.textDocumentUri,
+      this.workspaceRoot!,
+    );
+    if (!templates) {
+      return [];
+    }
+
+    const manager = TemplatePartsCollectionManager.getInstance(
+      this.workspaceRoot!,
+    );
+    const chainFiles = new Set<string>();
+    for (const template of templates) {
+      const templateParts = await manager.getMap(
+        template.templateType,
+        template.templateName,
+      );
+      for (const part of templateParts ?? []) {
+        chainFiles.add(part.fileFullPath);
+      }
+    }
+
+    const sharedPartNames = new Set(
+      occurrences
+        .filter(({ templatePart }) => templatePart.type === "sharedPart")
+        .map(({ templatePart }) => templatePart.name),
+    );
+
+    const scanner = new TemplateWorkspaceScanner(this.workspaceRoot!);
+    const otherTemplates = new Set<string>();
+    for (const sharedPartName of sharedPartNames) {
+      for (const reference of scanner.findIncludeReferences(
+        "sharedPart",
+        sharedPartName,
+      )) {
+        if (!chainFiles.has(reference.fileFullPath)) {
+          otherTemplates.add(
+            `${reference.templateType}/${reference.templateName}`,
+          );
+        }
+      }
+    }
+
+    return Array.from(otherTemplates).sort();
+  }
+
+  private getNodeRange(node: Parser.SyntaxNode): Range {
+    return {
+      start: {
+        line: node.startPosition.row,
+        character: node.startPosition.column,
+      },
+      end: {
+        line: node.endPosition.row,
+        character: node.endPosition.column,
+      },
+    };
+  }
+
+  /**
+   * Gets the range of a string node without its surrounding quotes
+   */
+  private getStringContentRange(stringNode: Parser.SyntaxNode): Range {
+    return {
+      start: {
+        line: stringNode.startPosition.row,
+        character: stringNode.startPosition.column + 1,
+      },
+      end: {
+        line: stringNode.endPosition.row,
+        character: stringNode.endPosition.column - 1,
+      },
+    };
+  }
+}
@@ -0,0 +1,209 @@
+import { Logger } from "../logger";
+import {
+  Range,
+  SemanticTokens,
+  SemanticTokensBuilder,
+  SemanticTokensParams,
+  SemanticTokensRangeParams,
+} from "vscode-languageserver/node";
+import { URI } from "vscode-uri";
+import * as Parser from "tree-sitter";
+import { LiquidTreeCache } from "../liquid/liquidTreeCache";
+import { LiquidTagIdentifier } from "../liquid/liquidTagIdentifier";
+import { SilverfinGlobalVariables } from "../liquid/types";
+import { DocumentSource } from "../utils/documentSource";
+import { LiquidSemanticTokensLegend } from "./types";
+
+interface SemanticToken {
+  line: number;
+  character: number;
+  length: number;
+  tokenType: number;
+  tokenModifiers: number;
+}
+
+const TOKEN_TYPES = LiquidSemanticTokensLegend.tokenTypes;
+const TOKEN_MODIFIERS = LiquidSemanticTokensLegend.tokenModifiers;
+
+export class SemanticTokensProvider {
+  private textDocumentUri: SemanticTokensParams["textDocument"]["uri"];
+  private range: Range | null;
+  private logger: Logger;
+  private identifier = new LiquidTagIdentifier();
+
+  constructor(params: SemanticTokensParams | SemanticTokensRangeParams) {
+    this.textDocumentUri = params.textDocument.uri;
+    this.range = "range" in params ? params.range : null;
+    this.logger = new Logger("SemanticTokensProvider");
+  }
+
+  /**
+   * Encodes the semantic tokens of the document, or of the requested range
+   */
+  public async handleSemanticTokensRequest(): Promise<SemanticTokens> {
+    const builder = new SemanticTokensBuilder();
+    const filePath = URI.parse(this.textDocumentUri).fsPath;
+
+    let tree: Parser.Tree | null;
+    let lines: string[];
+    try {
+      tree = LiquidTreeCache.getInstance().getTree(filePath);
+      lines = DocumentSource.getInstance().readFile(filePath).split("\n");
+    } catch (error) {
+      this.logger.warn(`Could not read file: ${filePath}, ${error}`);
+      return builder.build();
+    }
+    if (!tree) {
+      this.logger.warn(`Failed to parse document: ${this.textDocumentUri}`);
+      return builder.build();
+    }
+
+    const tokens = this.collectTokens(tree.rootNode, lines)
+      .filter(
+        (token) =>
+          !this.range ||
+          (token.line >= this.range.start.line &&
+            token.line <= this.range.end.line),
+      )
+      .sort((a, b) => a.line - b.line || a.character - b.character);
+
+    // Tokens may not overlap, the first one starting at a position wins
+    let lastEnd = { line: -1, character: 0 };
+    for (const token of tokens) {
+      if (token.line === lastEnd.line && token.character < lastEnd.character) {
+        continue;
+      }
+      builder.push(
+        token.line,
+        token.character,
+        token.length,
+        token.tokenType,
+        token.tokenModifiers,
+      );
+      lastEnd = {
+        line: token.line,
+        character: token.character + token.length,
+      };
+    }
+
+    this.logger.debug(
+      `Encoded ${tokens.length} semantic tokens for ${this.textDocumentUri}`,
+    );
+    return builder.build();
+  }
+
+  private collectTokens(
+    rootNode: Parser.SyntaxNode,
+    lines: string[],
+  ): SemanticToken[] {
+    const tokens: SemanticToken[] = [];
+    const globals: readonly string[] = SilverfinGlobalVariables;
+
+    for (const node of rootNode.descendantsOfType([
+      "identifier",
+      "string",
+      "filter",
+      "custom_unpaired_statement",
+    ])) {
+      switch (node.type) {
+        case "identifier":
+          if (this.identifier.isVariableDefinition(node)) {
+            tokens.push(
+              ...this.createTokens(node, lines, "variable", ["declaration"]),
+            );
+          } else if (globals.includes(node.text)) {
+            tokens.push(
+              ...this.createTokens(node, lines, "variable", ["defaultLibrary"]),
+            );
+          } else if (this.identifier.isVariable(node)) {
+            tokens.push(...this.createTokens(node, lines, "variable"));
+          }
+          break;
+
+        case "string":
+          tokens.push(
+            ...this.createTokens(
+              node,
+              lines,
+              this.isTranslationKey(node) ? "property" : "string",
+            ),
+          );
+          break;
+
+        case "filter": {
+          const nameNode = node.childForFieldName("name");
+          if (nameNode) {
+            tokens.push(...this.createTokens(nameNode, lines, "function"));
+          }
+          break;
+        }
+
+        case "custom_unpaired_statement": {
+          const keywordNode = node.children.find(
+            (child) => child.type === "custom_keyword",
+          );
+          if (keywordNode) {
+            tokens.push(...this.createTokens(keywordNode, lines, "keyword"));
+          }
+          break;
+        }
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Checks if a string is the key of a translation definition or usage
+   */
+  private isTranslationKey(node: Parser.SyntaxNode): boolean {
+    const parent = node.parent;
+    return (
+      !!parent &&
+      (parent.type === "translation_expression" ||
+        parent.type === "translation_statement") &&
+      parent.childForFieldName("key")?.startIndex === node.startIndex
+    );
+  }
+
+  /**
+   * Creates the tokens of a node, one per line as tokens cannot span lines
+   */
+  private createTokens(
+    node: Parser.SyntaxNode,
+    lines: string[],
+    tokenType: string,
+    tokenModifiers: string[] = [],
+  ): SemanticToken[] {
+    const tokens: SemanticToken[] = [];
+    const typeIndex = TOKEN_TYPES.indexOf(tokenType);
+    const modifierBits = tokenModifiers.reduce(
+      (bits, modifier) => bits | (1 << TOKEN_MODIFIERS.indexOf(modifier)),
+      0,
+    );
+
+    for (
+      let line = node.startPosition.row;
+      line <= node.endPosition.row;
+      line++
+    ) {
+      const start =
+        line === node.startPosition.row ? node.startPosition.column : 0;
+      const end =
+        line === node.endPosition.row
+          ? node.endPosition.column
+          : (lines[line] ?? "").length;
+      if (end > start) {
+        tokens.push({
+          line,
+          character: start,
+          length: end - start,
+          tokenType: typeIndex,
+          tokenModifiers: modifierBits,
+        });
+      }
+    }
+
+    return tokens;
+  }
+}
@@ -0,0 +1,91 @@
+import { Logger } from "../logger";
+import { URI } from "vscode-uri";
+import { DocumentSource } from "../utils/documentSource";
+import { parseTemplateUri } from "../utils/templateUriParser";
+import { TemplatePartsCollectionManager } from "../templates/templatePartsCollectionManager";
+import { RenderedSegment, TemplateMapParams, TemplateMapResult } from "./types";
+
+export class TemplateMapProvider {
+  private workspaceRoot: string | null;
+  private textDocumentUri: TemplateMapParams["textDocument"]["uri"];
+  private logger: Logger;
+
+  constructor(params: TemplateMapParams, workspaceRoot: string | null) {
+    this.workspaceRoot = workspaceRoot || null;
+    this.textDocumentUri = params.textDocument.uri;
+    this.logger = new Logger("TemplateMapProvider");
+  }
+
+  /**
+   * Builds the parts map of the template the document belongs to, along with
+   * the rendered template where every include is replaced by the included part
+   * @returns The map, or null if the document is not part of a mappable template
+   */
+  public async handleTemplateMapRequest(): Promise<TemplateMapResult | null> {
+    if (!this.workspaceRoot) {
+      return null;
+    }
+
+    const templateInfo = parseTemplateUri(this.textDocumentUri);
+    if (!templateInfo) {
+      this.logger.debug(`Not a template file: ${this.textDocumentUri}`);
+      return null;
+    }
+
+    const parts = await TemplatePartsCollectionManager.getInstance(
+      this.workspaceRoot,
+    ).getMap(templateInfo.templateType, templateInfo.templateName);
+    if (!parts) {
+      this.logger.debug(`No template parts found for: ${this.textDocumentUri}`);
+      return null;
+    }
+
+    const linesByFile = new Map<string, string[]>();
+    const renderedLines: string[] = [];
+    const segments: RenderedSegment[] = [];
+
+    for (const part of parts) {
+      if (!linesByFile.has(part.fileFullPath)) {
+        try {
+          linesByFile.set(
+            part.fileFullPath,
+            DocumentSource.getInstance()
+              .readFile(part.fileFullPath)
+              .split("\n"),
+          );
+        } catch (error) {
+          this.logger.warn(
+            `Could not read file: ${part.fileFullPath}, ${error}`,
+          );
+          linesByFile.set(part.fileFullPath, []);
+        }
+      }
+
+      const partLines = linesByFile
+        .get(part.fileFullPath)!
+        .slice(part.startLine, part.endLine + 1);
+      if (partLines.length === 0) {
+        continue;
+      }
+
+      segments.push({
+        startLine: renderedLines.length,
+        endLine: renderedLines.length + partLines.length - 1,
+        sourceUri: URI.file(part.fileFullPath).toString(),
+        part,
+      });
+      renderedLines.push(...partLines);
+    }
+
+    this.logger.debug(
+      `Mapped ${parts.length} parts into ${renderedLines.length} rendered lines`,
+    );
+    return {
+      templateType: templateInfo.templateType,
+      templateName: templateInfo.templateName,
+      parts,
+      renderedText: renderedLines.join("\n"),
+      segments,
+    };
+  }
+}
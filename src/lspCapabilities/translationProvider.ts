@@ -1,5 +1,6 @@
 import * as Parser from "tree-sitter";
 import { Logger } from "../logger";
+import { LocaleDeclaration } from "./types";
 
 export class TranslationProvider {
   private logger: Logger;
@@ -42,24 +43,53 @@ export class TranslationProvider {
       result.push(""); // Empty line
     }
 
+    for (const declaration of this.getLocaleDeclarations(node)) {
+      if (declaration.value !== null) {
+        result.push(`${declaration.locale}: ${declaration.value}`);
+      }
+    }
+
+    return result.join("\n");
+  }
+
+  /**
+   * Get the locale declarations of a translation definition, in source order
+   * @param node The translation_statement node
+   * @returns The declared locales with their text (null when not a string literal)
+   *
+   * @example translation {% t= 'key' default:'Text' nl:'Tekst' %}
+   *
+   * This should return:
+   * [{ locale: 'default', value: 'Text', node }, { locale: 'nl', value: 'Tekst', node }]
+   */
+  public getLocaleDeclarations(node: Parser.SyntaxNode): LocaleDeclaration[] {
+    if (node.type !== "translation_statement") {
+      return [];
+    }
+
     // Find all locale declarations (default, nl, fr, etc.)
     const localeDeclarations = node.children.filter(
       (child) => child.type === "locale_declaration",
     );
 
+    const declarations: LocaleDeclaration[] = [];
     for (const declaration of localeDeclarations) {
       const keyNode = declaration.childForFieldName("key");
       const valueNode = declaration.childForFieldName("value");
 
-      if (keyNode && valueNode?.type === "string") {
-        const localeKey = keyNode.text;
-        const localeValue = this.extractTranslationKey(valueNode);
-
-        result.push(`${localeKey}: ${localeValue}`);
+      if (keyNode) {
+        declarations.push({
+          locale: keyNode.text,
+          value:
+            valueNode?.type === "string"
+              ? this.extractTranslationKey(valueNode)
+              : null,
+          node: declaration,
+        });
       }
     }
 
-    return result.join("\n");
+    return declarations;
   }
 
   private extractTranslationKey(stringNode: Parser.SyntaxNode): string {
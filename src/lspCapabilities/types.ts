@@ -0,0 +1,89 @@
+import * as Parser from "tree-sitter";
+import {
+  RequestType,
+  SemanticTokenModifiers,
+  SemanticTokenTypes,
+  SemanticTokensLegend,
+  TextDocumentIdentifier,
+} from "vscode-languageserver/node";
+import { TemplatePart, TemplateParts, TemplateTypes } from "../templates/types";
+
+/**
+ * A locale declared in a translation definition, e.g. nl:'Tekst' in {% t= 'key' nl:'Tekst' %}
+ */
+export interface LocaleDeclaration {
+  locale: string;
+  value: string | null; // null when the value is not a string literal
+  node: Parser.SyntaxNode; // the locale_declaration node
+}
+
+/**
+ * Options controlling which diagnostics are reported
+ */
+export interface DiagnosticsOptions {
+  requiredLocales: string[]; // locales every translation definition must declare
+}
+
+export const DefaultDiagnosticsOptions: DiagnosticsOptions = {
+  requiredLocales: ["default"],
+};
+
+// Source shown next to every diagnostic reported by the server
+export const DiagnosticSource = "liquid-ls";
+
+// Codes of the diagnostics comparing a shared part's "used_in" with the actual includes
+export const UsedInDiagnosticCodes = {
+  missing: "used-in-missing", // template includes the shared part but is not listed
+  stale: "used-in-stale", // listed template no longer includes the shared part
+  invalid: "used-in-invalid", // listed entry is not an object with a type and a handle
+} as const;
+
+export interface TemplateMapParams {
+  textDocument: TextDocumentIdentifier;
+}
+
+/**
+ * Lines of the rendered template coming from one template part
+ */
+export interface RenderedSegment {
+  startLine: number; // 0-based, inclusive, in the rendered text
+  endLine: number; // 0-based, inclusive, in the rendered text
+  sourceUri: string;
+  part: TemplatePart; // startLine and endLine refer to the source file
+}
+
+export interface TemplateMapResult {
+  templateType: TemplateTypes;
+  templateName: string;
+  parts: TemplateParts;
+  renderedText: string; // every part in render order, include tags left out
+  segments: RenderedSegment[];
+}
+
+// Returns the parts map of the template a document belongs to
+export const TemplateMapRequest = new RequestType<
+  TemplateMapParams,
+  TemplateMapResult | null,
+  void
+>("liquid/templateMap");
+
+// Same as TemplateMapRequest, with the document URI as only argument
+export const TemplateMapCommand = "liquid.templateMap";
+
+/**
+ * Token types and modifiers of the semantic tokens, in the order their
+ * indexes are encoded
+ */
+export const LiquidSemanticTokensLegend: SemanticTokensLegend = {
+  tokenTypes: [
+    SemanticTokenTypes.variable, // variables and Silverfin drops
+    SemanticTokenTypes.property, // translation keys
+    SemanticTokenTypes.keyword, // Silverfin custom tags
+    SemanticTokenTypes.function, // filters
+    SemanticTokenTypes.string, // string literals
+  ],
+  tokenModifiers: [
+    SemanticTokenModifiers.declaration, // assign, capture and for definitions
+    SemanticTokenModifiers.defaultLibrary, // drops such as period or custom
+  ],
+};
@@ -0,0 +1,131 @@
+import * as Parser from "tree-sitter";
+import * as path from "path";
+import { Logger } from "../logger";
+import { ConditionalNodeTypes, NodeInTemplate } from "../liquid/types";
+import { TemplatePart } from "../templates/types";
+
+const MAX_CAPTURE_LINES = 5;
+
+export class VariableProvider {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger("VariableProvider");
+  }
+
+  /**
+   * Selects the definitions that may provide the variable's value: the nearest
+   * preceding one, and the earlier ones as long as the later definitions are
+   * only rendered under a condition
+   * @param definitions The definitions before the position, in render order
+   * @returns The candidate definitions, nearest first
+   */
+  public selectCandidates(definitions: NodeInTemplate[]): NodeInTemplate[] {
+    const candidates: NodeInTemplate[] = [];
+
+    for (let i = definitions.length - 1; i >= 0; i--) {
+      candidates.push(definitions[i]);
+      if (!this.isConditional(definitions[i].node)) {
+        break;
+      }
+    }
+
+    this.logger.debug(
+      `Selected ${candidates.length} of ${definitions.length} definitions`,
+    );
+    return candidates;
+  }
+
+  /**
+   * Formats the definitions of a variable as hover content
+   * @param variableName The variable being hovered
+   * @param candidates The definitions to show, nearest first
+   * @param workspaceRoot Used to display file paths relative to the workspace
+   *
+   * @example {% assign total = amount | plus: 1 %} in main.liquid
+   *
+   * This should return:
+   * Variable: total
+   *
+   * ```liquid
+   * {% assign total = amount | plus: 1 %}
+   * ```
+   * Defined in `reconciliation_texts/example/main.liquid`, line 3 (main template)
+   */
+  public extractInfo(
+    variableName: string,
+    candidates: NodeInTemplate[],
+    workspaceRoot: string,
+  ): string {
+    const result: string[] = [`Variable: ${variableName}`, ""];
+
+    if (candidates.length > 1) {
+      result.push(
+        `Defined in ${candidates.length} places, depending on the branches taken:`,
+        "",
+      );
+    }
+
+    for (const { node, templatePart } of candidates) {
+      result.push(
+        "```liquid",
+        this.getDefinitionSnippet(node),
+        "```",
+        `Defined in \`${path.relative(workspaceRoot, templatePart.fileFullPath)}\`, line ${node.startPosition.row + 1} (${this.describePart(templatePart)})`,
+        "",
+      );
+    }
+
+    return result.join("\n").trimEnd();
+  }
+
+  /**
+   * Gets the source of a definition: the whole assign, the opening tag of a for
+   * loop, or the capture with its body truncated
+   */
+  private getDefinitionSnippet(node: Parser.SyntaxNode): string {
+    const text = node.text.trim();
+
+    switch (node.type) {
+      case "for_loop_statement": {
+        const tagEnd = text.indexOf("%}");
+        return tagEnd === -1
+          ? text.split("\n")[0]
+          : text.substring(0, tagEnd + 2);
+      }
+      case "capture_statement": {
+        const lines = text.split("\n");
+        return lines.length > MAX_CAPTURE_LINES + 1
+          ? [
+              ...lines.slice(0, MAX_CAPTURE_LINES),
+              "...",
+              lines[lines.length - 1],
+            ].join("\n")
+          : text;
+      }
+      default:
+        return text;
+    }
+  }
+
+  private describePart(templatePart: TemplatePart): string {
+    switch (templatePart.type) {
+      case "textPart":
+        return `text part ${templatePart.name}`;
+      case "sharedPart":
+        return `shared part ${templatePart.name}`;
+      default:
+        return "main template";
+    }
+  }
+
+  private isConditional(node: Parser.SyntaxNode): boolean {
+    const conditionalTypes: readonly string[] = ConditionalNodeTypes;
+    for (let parent = node.parent; parent; parent = parent.parent) {
+      if (conditionalTypes.includes(parent.type)) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
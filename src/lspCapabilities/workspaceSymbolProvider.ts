@@ -0,0 +1,35 @@
+import { Logger } from "../logger";
+import {
+  SymbolInformation,
+  WorkspaceSymbolParams,
+} from "vscode-languageserver/node";
+import { WorkspaceSymbolIndex } from "../templates/workspaceSymbolIndex";
+
+export class WorkspaceSymbolProvider {
+  private workspaceRoot: string | null;
+  private query: WorkspaceSymbolParams["query"];
+  private logger: Logger;
+
+  constructor(params: WorkspaceSymbolParams, workspaceRoot: string | null) {
+    this.workspaceRoot = workspaceRoot || null;
+    this.query = params.query;
+    this.logger = new Logger("WorkspaceSymbolProvider");
+  }
+
+  public async handleWorkspaceSymbolRequest(): Promise<
+    SymbolInformation[] | null
+  > {
+    if (!this.workspaceRoot) {
+      return null;
+    }
+
+    const symbols = await WorkspaceSymbolIndex.getInstance(
+      this.workspaceRoot,
+    ).search(this.query);
+
+    this.logger.debug(
+      `Found ${symbols.length} workspace symbols for query: ${this.query}`,
+    );
+    return symbols;
+  }
+}
@@ -8,6 +8,22 @@ import {
   Connection,
   Hover,
   Definition,
+  CompletionItem,
+  Location,
+  WorkspaceEdit,
+  ResponseError,
+  Range,
+  DocumentSymbol,
+  SymbolInformation,
+  DidChangeWatchedFilesNotification,
+  FileChangeType,
+  CodeAction,
+  CodeActionKind,
+  CallHierarchyItem,
+  CallHierarchyIncomingCall,
+  CallHierarchyOutgoingCall,
+  SemanticTokens,
+  FoldingRange,
 } from "vscode-languageserver/node";
 
 import { TextDocument } from "vscode-languageserver-textdocument";
@@ -15,19 +31,60 @@ import { URI } from "vscode-uri";
 import { Logger } from "./logger";
 import { HoverProvider } from "./lspCapabilities/hoverProvider";
 import { DefinitionProvider } from "./lspCapabilities/definitionProvider";
+import { CompletionProvider } from "./lspCapabilities/completionProvider";
+import { DiagnosticsProvider } from "./lspCapabilities/diagnosticsProvider";
+import { ConfigDiagnosticsProvider } from "./lspCapabilities/configDiagnosticsProvider";
+import { CodeActionProvider } from "./lspCapabilities/codeActionProvider";
+import { CallHierarchyProvider } from "./lspCapabilities/callHierarchyProvider";
+import { TemplateMapProvider } from "./lspCapabilities/templateMapProvider";
+import { ReferencesProvider } from "./lspCapabilities/referencesProvider";
+import { RenameProvider } from "./lspCapabilities/renameProvider";
+import { DocumentSymbolProvider } from "./lspCapabilities/documentSymbolProvider";
+import { WorkspaceSymbolProvider } from "./lspCapabilities/workspaceSymbolProvider";
+import { SemanticTokensProvider } from "./lspCapabilities/semanticTokensProvider";
+import { FoldingRangeProvider } from "./lspCapabilities/foldingRangeProvider";
+import { DocumentSource } from "./utils/documentSource";
+import { TemplatePartsCollectionManager } from "./templates/templatePartsCollectionManager";
+import { WorkspaceSymbolIndex } from "./templates/workspaceSymbolIndex";
+import { CustomDropIndex } from "./templates/customDropIndex";
+import { IncludeIndex } from "./templates/includeIndex";
+import { LiquidTreeCache } from "./liquid/liquidTreeCache";
+import {
+  DefaultDiagnosticsOptions,
+  DiagnosticsOptions,
+  LiquidSemanticTokensLegend,
+  TemplateMapCommand,
+  TemplateMapRequest,
+  TemplateMapResult,
+} from "./lspCapabilities/types";
+import { TemplateKey } from "./templates/types";
+
+// Delay between the last edit of a document and its validation
+const CHANGE_DEBOUNCE_MS = 300;
 
 export class LiquidLanguageServer {
   private connection: Connection;
-  private documents: TextDocuments<TextDocument> = new TextDocuments(
-    TextDocument,
-  );
+  // Edits are applied to the cached trees before the documents are updated
+  private documents: TextDocuments<TextDocument> = new TextDocuments({
+    create: TextDocument.create,
+    update: (document, changes, version) => {
+      LiquidTreeCache.getInstance().applyChanges(document, changes);
+      return TextDocument.update(document, changes, version);
+    },
+  });
   private logger: Logger;
   private workspaceRoot: string | null = null;
+  private hasWatchedFilesRegistration = false;
+  private diagnosticsOptions: DiagnosticsOptions = {
+    ...DefaultDiagnosticsOptions,
+  };
+  private pendingChanges: Map<string, NodeJS.Timeout> = new Map();
 
   constructor(connection?: Connection) {
     this.connection = connection || createConnection(ProposedFeatures.all);
 
     this.logger = new Logger("LiquidLanguageServer");
+    DocumentSource.getInstance().setDocuments(this.documents);
     this.setupHandlers();
   }
 
@@ -35,7 +92,7 @@ export class LiquidLanguageServer {
     this.connection.onInitialize((params: InitializeParams) => {
       // Update log level from initialization options if provided
       const initOptions = params.initializationOptions as
-        | { logLevel?: string }
+        | { logLevel?: string; requiredLocales?: string[] }
         | undefined;
 
       const logLevel = initOptions?.logLevel || "info";
@@ -44,6 +101,13 @@ export class LiquidLanguageServer {
       });
       this.logger.info(`Log level set to: ${logLevel}`);
 
+      if (Array.isArray(initOptions?.requiredLocales)) {
+        this.diagnosticsOptions.requiredLocales = initOptions.requiredLocales;
+        this.logger.info(
+          `Required locales: ${initOptions.requiredLocales.join(", ")}`,
+        );
+      }
+
       this.logger.info("Server initializing");
 
       if (params.rootUri) {
@@ -54,11 +118,35 @@ export class LiquidLanguageServer {
         this.logger.info(`Workspace root (legacy): ${this.workspaceRoot}`);
       }
 
+      this.hasWatchedFilesRegistration =
+        !!params.capabilities.workspace?.didChangeWatchedFiles
+          ?.dynamicRegistration;
+
       const result: InitializeResult = {
         capabilities: {
-          textDocumentSync: TextDocumentSyncKind.Full,
+          textDocumentSync: {
+            openClose: true,
+            change: TextDocumentSyncKind.Incremental,
+            save: { includeText: false },
+          },
           hoverProvider: true,
           definitionProvider: true,
+          referencesProvider: true,
+          renameProvider: { prepareProvider: true },
+          documentSymbolProvider: true,
+          workspaceSymbolProvider: true,
+          codeActionProvider: { codeActionKinds: [CodeActionKind.QuickFix] },
+          callHierarchyProvider: true,
+          foldingRangeProvider: true,
+          semanticTokensProvider: {
+            legend: LiquidSemanticTokensLegend,
+            full: true,
+            range: true,
+          },
+          executeCommandProvider: { commands: [TemplateMapCommand] },
+          completionProvider: {
+            triggerCharacters: ["%", "{", " ", "/", "."],
+          },
         },
       };
       return result;
@@ -66,17 +154,35 @@ export class LiquidLanguageServer {
 
     this.connection.onInitialized(() => {
       this.logger.info("Server initialized");
+
+      if (this.hasWatchedFilesRegistration) {
+        this.connection.client.register(
+          DidChangeWatchedFilesNotification.type,
+          {
+            watchers: [
+              { globPattern: "**/*.liquid" },
+              { globPattern: "**/config.json" },
+            ],
+          },
+        );
+      }
     });
 
-    // this.connection.onDidChangeWatchedFiles((_change) => {
-    //   this.logger.logRequest("didChangeWatchedFiles");
-    //   this.connection.console.log("File change event received");
-    // });
-    //
-    // this.documents.onDidChangeContent((change) => {
-    //   this.logger.logRequest("didChangeContent");
-    //   this.connection.console.log(`didChangeContent: ${change.document.uri}`);
-    // });
+    // Files created, deleted or changed outside the editor
+    this.connection.onDidChangeWatchedFiles(async (params) => {
+      this.logger.logRequest("didChangeWatchedFiles", params);
+
+      for (const change of params.changes) {
+        const filePath = URI.parse(change.uri).fsPath;
+        if (change.type === FileChangeType.Deleted) {
+          LiquidTreeCache.getInstance().delete(filePath);
+        }
+        await this.refreshTemplates(filePath);
+      }
+      for (const document of this.documents.all()) {
+        await this.validateDocument(document);
+      }
+    });
 
     this.connection.onHover(async (params): Promise<Hover | null> => {
       this.logger.logRequest("onHover", params);
@@ -107,14 +213,302 @@ export class LiquidLanguageServer {
       return response;
     });
 
+    this.connection.onCompletion(
+      async (params): Promise<CompletionItem[] | null> => {
+        this.logger.logRequest("onCompletion", params);
+
+        const completionProvider = new CompletionProvider(
+          params,
+          this.workspaceRoot,
+        );
+        return await completionProvider.handleCompletionRequest();
+      },
+    );
+
+    this.connection.onReferences(async (params): Promise<Location[] | null> => {
+      this.logger.logRequest("onReferences", params);
+
+      const referencesProvider = new ReferencesProvider(
+        params,
+        this.workspaceRoot,
+      );
+      return await referencesProvider.handleReferencesRequest();
+    });
+
+    this.connection.onPrepareRename(
+      async (params): Promise<{ range: Range; placeholder: string } | null> => {
+        this.logger.logRequest("onPrepareRename", params);
+
+        const renameProvider = new RenameProvider(params, this.workspaceRoot);
+        return await renameProvider.handlePrepareRenameRequest();
+      },
+    );
+
+    this.connection.onRenameRequest(
+      async (params): Promise<WorkspaceEdit | ResponseError<void> | null> => {
+        this.logger.logRequest("onRenameRequest", params);
+
+        const renameProvider = new RenameProvider(params, this.workspaceRoot);
+        return await renameProvider.handleRenameRequest(params.newName);
+      },
+    );
+
+    this.connection.onDocumentSymbol(
+      async (params): Promise<DocumentSymbol[] | null> => {
+        this.logger.logRequest("onDocumentSymbol", params);
+
+        const documentSymbolProvider = new DocumentSymbolProvider(params);
+        return await documentSymbolProvider.handleDocumentSymbolRequest();
+      },
+    );
+
+    this.connection.onFoldingRanges(
+      async (params): Promise<FoldingRange[] | null> => {
+        this.logger.logRequest("onFoldingRanges", params);
+
+        const foldingRangeProvider = new FoldingRangeProvider(params);
+        return await foldingRangeProvider.handleFoldingRangeRequest();
+      },
+    );
+
+    this.connection.languages.semanticTokens.on(
+      async (params): Promise<SemanticTokens> => {
+        this.logger.logRequest("onSemanticTokens", params);
+
+        const semanticTokensProvider = new SemanticTokensProvider(params);
+        return await semanticTokensProvider.handleSemanticTokensRequest();
+      },
+    );
+
+    this.connection.languages.semanticTokens.onRange(
+      async (params): Promise<SemanticTokens> => {
+        this.logger.logRequest("onSemanticTokensRange", params);
+
+        const semanticTokensProvider = new SemanticTokensProvider(params);
+        return await semanticTokensProvider.handleSemanticTokensRequest();
+      },
+    );
+
+    this.connection.onWorkspaceSymbol(
+      async (params): Promise<SymbolInformation[] | null> => {
+        this.logger.logRequest("onWorkspaceSymbol", params);
+
+        const workspaceSymbolProvider = new WorkspaceSymbolProvider(
+          params,
+          this.workspaceRoot,
+        );
+        return await workspaceSymbolProvider.handleWorkspaceSymbolRequest();
+      },
+    );
+
+    this.connection.onCodeAction(
+      async (params): Promise<CodeAction[] | null> => {
+        this.logger.logRequest("onCodeAction", params);
+
+        const codeActionProvider = new CodeActionProvider(
+          params,
+          this.workspaceRoot,
+        );
+        return await codeActionProvider.handleCodeActionRequest();
+      },
+    );
+
+    // Include hierarchy: templates and parts are the items, include tags the calls
+    this.connection.languages.callHierarchy.onPrepare(
+      async (params): Promise<CallHierarchyItem[] | null> => {
+        this.logger.logRequest("onCallHierarchyPrepare", params);
+
+        const callHierarchyProvider = new CallHierarchyProvider(
+          this.workspaceRoot,
+        );
+        return await callHierarchyProvider.handlePrepareRequest(params);
+      },
+    );
+
+    this.connection.languages.callHierarchy.onIncomingCalls(
+      async (params): Promise<CallHierarchyIncomingCall[]> => {
+        this.logger.logRequest("onCallHierarchyIncomingCalls", params);
+
+        const callHierarchyProvider = new CallHierarchyProvider(
+          this.workspaceRoot,
+        );
+        return await callHierarchyProvider.handleIncomingCallsRequest(
+          params.item,
+        );
+      },
+    );
+
+    this.connection.languages.callHierarchy.onOutgoingCalls(
+      async (params): Promise<CallHierarchyOutgoingCall[]> => {
+        this.logger.logRequest("onCallHierarchyOutgoingCalls", params);
+
+        const callHierarchyProvider = new CallHierarchyProvider(
+          this.workspaceRoot,
+        );
+        return await callHierarchyProvider.handleOutgoingCallsRequest(
+          params.item,
+        );
+      },
+    );
+
+    this.connection.onRequest(
+      TemplateMapRequest,
+      async (params): Promise<TemplateMapResult | null> => {
+        this.logger.logRequest("onTemplateMap", params);
+
+        const templateMapProvider = new TemplateMapProvider(
+          params,
+          this.workspaceRoot,
+        );
+        return await templateMapProvider.handleTemplateMapRequest();
+      },
+    );
+
+    this.connection.onExecuteCommand(
+      async (params): Promise<TemplateMapResult | null> => {
+        this.logger.logRequest("onExecuteCommand", params);
+
+        const [uri] = params.arguments ?? [];
+        if (params.command !== TemplateMapCommand || typeof uri !== "string") {
+          this.logger.warn(`Unsupported command: ${params.command}`);
+          return null;
+        }
+
+        const templateMapProvider = new TemplateMapProvider(
+          { textDocument: { uri } },
+          this.workspaceRoot,
+        );
+        return await templateMapProvider.handleTemplateMapRequest();
+      },
+    );
+
+    // Files are read from the open documents, so diagnostics follow unsaved edits
+    this.documents.onDidChangeContent((event) => {
+      this.scheduleChange(event.document.uri);
+    });
+
+    // Closing a document discards its unsaved edits, so the templates it is
+    // part of are read from disk again
+    this.documents.onDidClose(async (event) => {
+      const uri = event.document.uri;
+      const filePath = URI.parse(uri).fsPath;
+      this.cancelChange(uri);
+      this.connection.sendDiagnostics({ uri, diagnostics: [] });
+      LiquidTreeCache.getInstance().delete(filePath);
+
+      const refreshedKeys = await this.refreshTemplates(filePath);
+      await this.validateDocumentsOfTemplates(refreshedKeys);
+    });
+
     this.documents.listen(this.connection);
   }
 
+  /**
+   * Refreshes the templates and validates a document once it stops changing,
+   * so typing does not re-map the templates on every keystroke
+   * @param uri The URI of the changed document
+   */
+  private scheduleChange(uri: string): void {
+    this.cancelChange(uri);
+    this.pendingChanges.set(
+      uri,
+      setTimeout(async () => {
+        this.pendingChanges.delete(uri);
+        const document = this.documents.get(uri);
+        if (!document) {
+          return;
+        }
+        await this.refreshTemplates(URI.parse(uri).fsPath);
+        await this.validateDocument(document);
+      }, CHANGE_DEBOUNCE_MS),
+    );
+  }
+
+  private cancelChange(uri: string): void {
+    const timer = this.pendingChanges.get(uri);
+    if (timer) {
+      clearTimeout(timer);
+      this.pendingChanges.delete(uri);
+    }
+  }
+
+  /**
+   * Refreshes the template maps and the workspace indexes after a file changed
+   * @param filePath The absolute path of the changed file
+   * @returns The keys of the refreshed templates
+   */
+  private async refreshTemplates(filePath: string): Promise<TemplateKey[]> {
+    if (!this.workspaceRoot) {
+      return [];
+    }
+
+    try {
+      // The template refresh looks up the templates including shared parts
+      IncludeIndex.getInstance().invalidate();
+      const refreshedKeys = await TemplatePartsCollectionManager.getInstance(
+        this.workspaceRoot,
+      ).refreshTemplatesForFile(filePath);
+      WorkspaceSymbolIndex.getInstance(this.workspaceRoot).invalidate();
+      CustomDropIndex.getInstance(this.workspaceRoot).invalidate();
+      return refreshedKeys;
+    } catch (error) {
+      this.logger.error(
+        `Failed to refresh templates for ${filePath}: ${error}`,
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Validates the open documents that are part of any of the given templates
+   * @param templateKeys The keys of the templates to validate
+   */
+  private async validateDocumentsOfTemplates(
+    templateKeys: TemplateKey[],
+  ): Promise<void> {
+    if (!this.workspaceRoot || templateKeys.length === 0) {
+      return;
+    }
+
+    const manager = TemplatePartsCollectionManager.getInstance(
+      this.workspaceRoot,
+    );
+    for (const document of this.documents.all()) {
+      const documentKeys = manager.findLoadedTemplatesForFile(
+        URI.parse(document.uri).fsPath,
+      );
+      if (documentKeys.some((key) => templateKeys.includes(key))) {
+        await this.validateDocument(document);
+      }
+    }
+  }
+
+  private async validateDocument(document: TextDocument): Promise<void> {
+    this.logger.logRequest("validateDocument", { uri: document.uri });
+
+    try {
+      const diagnosticsProvider = document.uri.endsWith("/config.json")
+        ? new ConfigDiagnosticsProvider(document.uri, this.workspaceRoot)
+        : new DiagnosticsProvider(
+            document.uri,
+            this.workspaceRoot,
+            this.diagnosticsOptions,
+          );
+      const diagnostics = await diagnosticsProvider.handleDiagnosticsRequest();
+      this.connection.sendDiagnostics({ uri: document.uri, diagnostics });
+    } catch (error) {
+      this.logger.error(`Failed to validate ${document.uri}: ${error}`);
+    }
+  }
+
   public start(): void {
     this.connection.listen();
   }
 
   public stop(): void {
+    for (const uri of Array.from(this.pendingChanges.keys())) {
+      this.cancelChange(uri);
+    }
     this.connection.dispose();
   }
 }
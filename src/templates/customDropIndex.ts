@@ -0,0 +1,103 @@
+import { Logger } from "../logger";
+import { CustomDropParser } from "../liquid/customDropParser";
+import { TemplatePartsCollectionManager } from "./templatePartsCollectionManager";
+import { TemplateWorkspaceScanner } from "./templateWorkspaceScanner";
+import { CustomDropReference, TemplateTypes } from "./types";
+
+/**
+ * Singleton class that indexes the custom drops ("custom.<namespace>.<key>")
+ * of the templates in the workspace. Custom drops are stored per template, so
+ * each template is indexed with every file it renders, shared parts included.
+ * Templates are indexed on first use and kept until the index is invalidated.
+ *
+ * @example
+ * const index = CustomDropIndex.getInstance(workspaceRoot);
+ * const drops = await index.getDrops('reconciliationText', 'reconciliation_text_1');
+ */
+export class CustomDropIndex {
+  private static instance: CustomDropIndex | null = null;
+  private logger: Logger = new Logger("CustomDropIndex");
+  private workspaceRoot: string;
+  private dropsByTemplate: Map<string, CustomDropReference[]> = new Map();
+
+  private constructor(workspaceRoot: string) {
+    this.workspaceRoot = workspaceRoot;
+  }
+
+  /**
+   * Gets the singleton instance of CustomDropIndex
+   * @param workspaceRoot The workspace root path (required on first call)
+   * @returns The singleton instance
+   */
+  public static getInstance(workspaceRoot?: string): CustomDropIndex {
+    if (!CustomDropIndex.instance) {
+      if (!workspaceRoot) {
+        throw new Error(
+          "workspaceRoot is required when creating the first instance",
+        );
+      }
+      CustomDropIndex.instance = new CustomDropIndex(workspaceRoot);
+    }
+    return CustomDropIndex.instance;
+  }
+
+  /**
+   * Gets every custom drop used by a template, in render order
+   * @param templateType The type of template
+   * @param templateName The name of the template
+   * @returns The drops found in the template and its included parts
+   */
+  public async getDrops(
+    templateType: TemplateTypes,
+    templateName: string,
+  ): Promise<CustomDropReference[]> {
+    const templateKey = `${templateType}/${templateName}`;
+    if (!this.dropsByTemplate.has(templateKey)) {
+      const drops = await this.indexTemplate(templateType, templateName);
+      this.dropsByTemplate.set(templateKey, drops);
+      this.logger.debug(
+        `Indexed ${drops.length} custom drops of ${templateKey}`,
+      );
+    }
+    return this.dropsByTemplate.get(templateKey)!;
+  }
+
+  /**
+   * Drops the index, so templates are indexed again on next use
+   */
+  public invalidate(): void {
+    this.logger.debug("Custom drop index invalidated");
+    this.dropsByTemplate.clear();
+  }
+
+  private async indexTemplate(
+    templateType: TemplateTypes,
+    templateName: string,
+  ): Promise<CustomDropReference[]> {
+    const templateParts = await TemplatePartsCollectionManager.getInstance(
+      this.workspaceRoot,
+    ).getMap(templateType, templateName);
+
+    // Templates that cannot be mapped fall back to their files on disk
+    const scanner = new TemplateWorkspaceScanner(this.workspaceRoot);
+    const files = templateParts?.length
+      ? Array.from(new Set(templateParts.map((part) => part.fileFullPath)))
+      : scanner.listLiquidFiles(
+          scanner.getTemplateDirectory(templateType, templateName),
+        );
+
+    const parser = new CustomDropParser();
+    const drops: CustomDropReference[] = [];
+    for (const fileFullPath of files) {
+      try {
+        for (const drop of parser.findAllInFile(fileFullPath)) {
+          drops.push({ fileFullPath, drop });
+        }
+      } catch (error) {
+        this.logger.warn(`Could not read file: ${fileFullPath}, ${error}`);
+      }
+    }
+
+    return drops;
+  }
+}
@@ -0,0 +1,59 @@
+import { Logger } from "../logger";
+import { IncludeReference } from "./types";
+
+/**
+ * Singleton class that keeps the include tags of every template file, per
+ * workspace root. They describe how templates and parts include each other,
+ * so the workspace is only scanned again once the index is invalidated.
+ *
+ * @example
+ * const index = IncludeIndex.getInstance();
+ * const references = index.get(workspaceRoot);
+ */
+export class IncludeIndex {
+  private static instance: IncludeIndex | null = null;
+  private logger: Logger = new Logger("IncludeIndex");
+  private referencesByRoot: Map<string, IncludeReference[]> = new Map();
+
+  private constructor() {}
+
+  /**
+   * Gets the singleton instance of IncludeIndex
+   * @returns The singleton instance
+   */
+  public static getInstance(): IncludeIndex {
+    if (!IncludeIndex.instance) {
+      IncludeIndex.instance = new IncludeIndex();
+    }
+    return IncludeIndex.instance;
+  }
+
+  /**
+   * Gets the include tags indexed for a workspace
+   * @param workspaceRoot The workspace root path
+   * @returns The include tags, or undefined if the workspace is not indexed
+   */
+  public get(workspaceRoot: string): IncludeReference[] | undefined {
+    return this.referencesByRoot.get(workspaceRoot);
+  }
+
+  /**
+   * Stores the include tags of a workspace
+   * @param workspaceRoot The workspace root path
+   * @param references Every include tag of the workspace's template files
+   */
+  public set(workspaceRoot: string, references: IncludeReference[]): void {
+    this.logger.debug(
+      `Indexed ${references.length} include tags in ${workspaceRoot}`,
+    );
+    this.referencesByRoot.set(workspaceRoot, references);
+  }
+
+  /**
+   * Drops the index, so workspaces are scanned again on next use
+   */
+  public invalidate(): void {
+    this.logger.debug("Include index invalidated");
+    this.referencesByRoot.clear();
+  }
+}
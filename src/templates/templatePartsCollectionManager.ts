@@ -1,12 +1,15 @@
 import { Logger } from "../logger";
 import { TemplatePartsMapper } from "./templatePartsMapper";
 import { URI } from "vscode-uri";
+import * as path from "path";
 import { parseTemplateUri } from "../utils/templateUriParser";
+import { TemplateWorkspaceScanner } from "./templateWorkspaceScanner";
 import {
   TemplateTypes,
   TemplateParts,
   TemplateKey,
   TemplateCollection,
+  TemplateDirectories,
 } from "./types";
 
 /**
@@ -24,8 +27,10 @@ export class TemplatePartsCollectionManager {
   private logger: Logger = new Logger("TemplatePartsCollectionManager");
   private loadedMaps: TemplateCollection = new Map();
   private templatePartsMapper: TemplatePartsMapper;
+  private workspaceRoot: string;
 
   private constructor(workspaceRoot: string) {
+    this.workspaceRoot = workspaceRoot;
     this.templatePartsMapper = new TemplatePartsMapper(workspaceRoot);
   }
 
@@ -157,6 +162,109 @@ export class TemplatePartsCollectionManager {
     };
   }
 
+  /**
+   * Refreshes the loaded templates affected by a change to a file (a Liquid file
+   * or a config.json): the template the file belongs to and every loaded template
+   * whose parts contain the file.
+   * When no loaded template contains a shared part yet (e.g. it was just created),
+   * the templates including it are looked up in the workspace.
+   * Templates that are not loaded are left alone, they are mapped on first use.
+   * @param filePath The absolute path of the changed, created or deleted file
+   * @returns The keys of the refreshed templates
+   */
+  public async refreshTemplatesForFile(
+    filePath: string,
+  ): Promise<TemplateKey[]> {
+    const affectedKeys = new Set<TemplateKey>();
+
+    const ownerTemplate = this.identifyOwnerTemplate(filePath);
+    if (ownerTemplate) {
+      affectedKeys.add(
+        this.generateTemplateKey(
+          ownerTemplate.templateType,
+          ownerTemplate.templateName,
+        ),
+      );
+    }
+
+    for (const [templateKey, templateParts] of this.loadedMaps) {
+      if (templateParts.some((part) => part.fileFullPath === filePath)) {
+        affectedKeys.add(templateKey);
+      }
+    }
+
+    if (
+      ownerTemplate?.templateType === "sharedPart" &&
+      affectedKeys.size === 1
+    ) {
+      const scanner = new TemplateWorkspaceScanner(this.workspaceRoot);
+      for (const reference of scanner.findIncludeReferences(
+        "sharedPart",
+        ownerTemplate.templateName,
+      )) {
+        affectedKeys.add(
+          this.generateTemplateKey(
+            reference.templateType,
+            reference.templateName,
+          ),
+        );
+      }
+    }
+
+    const refreshedKeys: TemplateKey[] = [];
+    for (const templateKey of affectedKeys) {
+      if (!this.loadedMaps.has(templateKey)) {
+        continue;
+      }
+      const separatorIndex = templateKey.indexOf("/");
+      await this.loadMap(
+        templateKey.substring(0, separatorIndex) as TemplateTypes,
+        templateKey.substring(separatorIndex + 1),
+      );
+      refreshedKeys.push(templateKey);
+    }
+
+    this.logger.debug(
+      `Refreshed ${refreshedKeys.length} templates after change to ${filePath}`,
+    );
+    return refreshedKeys;
+  }
+
+  /**
+   * Finds the loaded templates that render a file
+   * @param filePath The absolute path of the file
+   * @returns The keys of the loaded templates whose map contains the file
+   */
+  public findLoadedTemplatesForFile(filePath: string): TemplateKey[] {
+    return Array.from(this.loadedMaps.entries())
+      .filter(([, templateParts]) =>
+        templateParts.some((part) => part.fileFullPath === filePath),
+      )
+      .map(([templateKey]) => templateKey);
+  }
+
+  /**
+   * Identifies the template a file belongs to from its location in the workspace,
+   * e.g. "reconciliation_texts/my_template/text_parts/part.liquid"
+   * @param filePath The absolute path of the file
+   * @returns The template type and name, or null if the file is outside the template directories
+   */
+  private identifyOwnerTemplate(
+    filePath: string,
+  ): { templateType: TemplateTypes; templateName: string } | null {
+    const [directory, templateName] = path
+      .relative(this.workspaceRoot, filePath)
+      .split(path.sep);
+    if (!templateName) {
+      return null;
+    }
+
+    const templateType = (
+      Object.keys(TemplateDirectories) as TemplateTypes[]
+    ).find((type) => TemplateDirectories[type] === directory);
+    return templateType ? { templateType, templateName } : null;
+  }
+
   /**
    * Generates the template key from template type and name
    * @param templateType The type of template
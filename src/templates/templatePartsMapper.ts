@@ -1,7 +1,7 @@
 import { Logger } from "../logger";
 import * as fs from "fs";
 import * as path from "path";
-import { TreeSitterLiquidProvider } from "../liquid/treeSitterLiquidProvider";
+import { LiquidTreeCache } from "../liquid/liquidTreeCache";
 import { IncludeParser } from "../liquid/includeParser";
 import {
   TemplateTypes,
@@ -10,6 +10,8 @@ import {
   TemplateDirectories,
 } from "./types";
 import { IncludeTagInfo } from "../liquid/types";
+import { DocumentSource } from "../utils/documentSource";
+import { readTemplateConfig } from "../utils/templateConfigReader";
 
 /**
  * Class to map out the parts of a Liquid template, including main, text parts, and shared parts.
@@ -33,7 +35,6 @@ import { IncludeTagInfo } from "../liquid/types";
 export class TemplatePartsMapper {
   private logger: Logger = new Logger("TemplatePartsMapper");
   private workspaceRoot!: string;
-  private parser: TreeSitterLiquidProvider = new TreeSitterLiquidProvider();
 
   constructor(workspaceRoot: string) {
     this.workspaceRoot = workspaceRoot;
@@ -57,13 +58,12 @@ export class TemplatePartsMapper {
 
     const mainTemplatePath = path.join(templateDir, "main.liquid");
 
-    if (!fs.existsSync(mainTemplatePath)) {
+    if (!DocumentSource.getInstance().exists(mainTemplatePath)) {
       this.logger.warn(`Main template does not exist: ${mainTemplatePath}`);
       return null;
     }
 
-    const mainLiquid = fs.readFileSync(mainTemplatePath, "utf-8");
-    const mainTree = this.parser.parseTree(mainLiquid);
+    const mainTree = LiquidTreeCache.getInstance().getTree(mainTemplatePath);
 
     if (!mainTree) {
       this.logger.error(`Failed to parse main template: ${mainTemplatePath}`);
@@ -109,18 +109,18 @@ export class TemplatePartsMapper {
     }
     processedFiles.add(filePath);
 
-    if (!fs.existsSync(filePath)) {
+    if (!DocumentSource.getInstance().exists(filePath)) {
       this.logger.warn(`Template file does not exist: ${filePath}`);
       return;
     }
 
     this.logger.debug(`Processing file: ${filePath}`);
 
-    const fileContent = fs.readFileSync(filePath, "utf-8");
+    const fileContent = DocumentSource.getInstance().readFile(filePath);
     const totalLines = fileContent.split("\n").length;
 
     const transitionParser = new IncludeParser();
-    const includeTags = transitionParser.findAll(fileContent);
+    const includeTags = transitionParser.findAllInFile(filePath);
 
     // Process includes and create template parts in order
     let currentStartLine = 0; // 0-based indexing
@@ -173,25 +173,47 @@ export class TemplatePartsMapper {
     processedFiles.delete(filePath);
   }
 
+  /**
+   * Resolves the file path of a text part. The "text_parts" map of the template's
+   * config.json takes precedence, the text_parts folder is used as a fallback.
+   * @param partName The name of the text part
+   * @param templateDir The template directory
+   * @returns The path of the text part file, which may not exist
+   */
+  public resolveTextPartFilePath(
+    partName: string,
+    templateDir: string,
+  ): string {
+    const configuredPath =
+      readTemplateConfig(templateDir)?.text_parts?.[partName];
+    if (configuredPath) {
+      const configuredFilePath = path.join(templateDir, configuredPath);
+      if (DocumentSource.getInstance().exists(configuredFilePath)) {
+        return configuredFilePath;
+      }
+      this.logger.debug(
+        `Configured text part ${partName} not found at ${configuredFilePath}, using text_parts folder`,
+      );
+    }
+
+    // Text parts are relative to the template directory in text_parts folder
+    return path.join(templateDir, "text_parts", `${partName}.liquid`);
+  }
+
   /**
    * Resolves the file path for an included part based on its type
    * @param includeTag The include tag information from TreeSitter
    * @param templateDir The current template directory
    * @returns The resolved file path or null if file doesn't exist
    */
-  private resolveIncludedPartFilePath(
+  public resolveIncludedPartFilePath(
     includeTag: IncludeTagInfo,
     templateDir: string,
   ): string | null {
     let partFilePath: string;
 
     if (includeTag.type === "textPart") {
-      // Text parts are relative to the template directory in text_parts folder
-      partFilePath = path.join(
-        templateDir,
-        "text_parts",
-        `${includeTag.name}.liquid`,
-      );
+      partFilePath = this.resolveTextPartFilePath(includeTag.name, templateDir);
     } else if (includeTag.type === "sharedPart") {
       // Shared parts are relative to workspace root in shared_parts/{name}/{name}.liquid structure
       partFilePath = path.join(
@@ -205,7 +227,7 @@ export class TemplatePartsMapper {
       return null;
     }
 
-    if (!fs.existsSync(partFilePath)) {
+    if (!DocumentSource.getInstance().exists(partFilePath)) {
       this.logger.warn(`Part file does not exist: ${partFilePath}`);
       return null;
     }
@@ -0,0 +1,398 @@
+import { Logger } from "../logger";
+import * as fs from "fs";
+import * as path from "path";
+import { readTemplateConfig } from "../utils/templateConfigReader";
+import { IncludeParser } from "../liquid/includeParser";
+import { IncludeIndex } from "./includeIndex";
+import { ResultReferenceParser } from "../liquid/resultReferenceParser";
+import { IncludeTagInfo, ResultReferenceInfo } from "../liquid/types";
+import {
+  TemplateTypes,
+  TemplateDirectories,
+  TemplateInfo,
+  IncludeReference,
+  ResultReference,
+  SharedPartUsage,
+} from "./types";
+
+/**
+ * Class to discover templates and parts on disk, following the folder layout
+ * described by TemplateDirectories.
+ *
+ * @example
+ * const scanner = new TemplateWorkspaceScanner(workspaceRoot);
+ * scanner.listSharedPartNames();
+ * // Output: ['shared_part_1', 'shared_part_2']
+ */
+export class TemplateWorkspaceScanner {
+  private logger: Logger = new Logger("TemplateWorkspaceScanner");
+  private workspaceRoot: string;
+
+  constructor(workspaceRoot: string) {
+    this.workspaceRoot = workspaceRoot;
+  }
+
+  /**
+   * Gets the directory of a template
+   * @param templateType The type of template
+   * @param templateName The name of the template
+   * @returns The absolute path of the template directory
+   */
+  public getTemplateDirectory(
+    templateType: TemplateTypes,
+    templateName: string,
+  ): string {
+    return path.join(
+      this.workspaceRoot,
+      TemplateDirectories[templateType],
+      templateName,
+    );
+  }
+
+  /**
+   * Lists the text part names of a template, both from the "text_parts" map of
+   * its config.json and from the files in its text_parts folder
+   * @param templateType The type of template
+   * @param templateName The name of the template
+   * @returns Sorted list of unique text part names
+   */
+  public listTextPartNames(
+    templateType: TemplateTypes,
+    templateName: string,
+  ): string[] {
+    const templateDir = this.getTemplateDirectory(templateType, templateName);
+    const names = new Set<string>();
+
+    const config = readTemplateConfig(templateDir);
+    if (config?.text_parts) {
+      Object.keys(config.text_parts).forEach((name) => names.add(name));
+    }
+
+    const textPartsDir = path.join(templateDir, "text_parts");
+    for (const fileName of this.readDirectory(textPartsDir)) {
+      if (fileName.endsWith(".liquid")) {
+        names.add(fileName.replace(/\.liquid$/, ""));
+      }
+    }
+
+    return Array.from(names).sort();
+  }
+
+  /**
+   * Lists the names of all shared parts in the workspace
+   * @returns Sorted list of shared part names
+   */
+  public listSharedPartNames(): string[] {
+    const sharedPartsDir = path.join(
+      this.workspaceRoot,
+      TemplateDirectories.sharedPart,
+    );
+
+    return this.readDirectory(sharedPartsDir)
+      .filter(
+        (name) =>
+          this.statEntry(path.join(sharedPartsDir, name))?.isDirectory() ??
+          false,
+      )
+      .sort();
+  }
+
+  /**
+   * Lists every template in the workspace, across all template directories
+   * @returns Templates sorted by type and name
+   */
+  public listTemplates(): TemplateInfo[] {
+    const templates: TemplateInfo[] = [];
+
+    for (const [templateType, directory] of Object.entries(
+      TemplateDirectories,
+    )) {
+      const typeDir = path.join(this.workspaceRoot, directory);
+      for (const templateName of this.readDirectory(typeDir).sort()) {
+        const templateDir = path.join(typeDir, templateName);
+        if (this.statEntry(templateDir)?.isDirectory()) {
+          templates.push({
+            templateType: templateType as TemplateTypes,
+            templateName,
+            templateDir,
+          });
+        }
+      }
+    }
+
+    return templates;
+  }
+
+  /**
+   * Lists every Liquid file inside a template directory, recursively
+   * @param templateDir The template directory
+   * @returns Sorted absolute paths of the Liquid files
+   */
+  public listLiquidFiles(templateDir: string): string[] {
+    const liquidFiles: string[] = [];
+
+    for (const entry of this.readDirectory(templateDir)) {
+      const entryPath = path.join(templateDir, entry);
+      const stats = this.statEntry(entryPath);
+      if (!stats) {
+        continue;
+      }
+      if (stats.isDirectory()) {
+        liquidFiles.push(...this.listLiquidFiles(entryPath));
+      } else if (entry.endsWith(".liquid")) {
+        liquidFiles.push(entryPath);
+      }
+    }
+
+    return liquidFiles.sort();
+  }
+
+  /**
+   * Finds every include tag pointing to a part.
+   * Shared parts are searched in every template of the workspace, text parts only
+   * in the template they belong to.
+   * @param partType The type of the included part
+   * @param partName The name of the included part
+   * @param owner The template owning the text part (ignored for shared parts)
+   * @returns The include tags found, grouped by file
+   */
+  public findIncludeReferences(
+    partType: "textPart" | "sharedPart",
+    partName: string,
+    owner?: { templateType: TemplateTypes; templateName: string },
+  ): IncludeReference[] {
+    const references = this.getIncludeReferences().filter(
+      (reference) =>
+        reference.includeTag.type === partType &&
+        reference.includeTag.name === partName &&
+        (partType === "sharedPart" ||
+          (reference.templateType === owner?.templateType &&
+            reference.templateName === owner?.templateName)),
+    );
+
+    this.logger.debug(
+      `Found ${references.length} includes of ${partType} ${partName}`,
+    );
+    return references;
+  }
+
+  /**
+   * Lists the templates that include a shared part, in the format of the
+   * "used_in" entries of its config.json
+   * @param sharedPartName The name of the shared part
+   * @returns Unique usages sorted by type and handle, the shared part itself excluded
+   */
+  public findSharedPartUsages(sharedPartName: string): SharedPartUsage[] {
+    const usages = new Map<string, SharedPartUsage>();
+
+    for (const reference of this.findIncludeReferences(
+      "sharedPart",
+      sharedPartName,
+    )) {
+      if (
+        reference.templateType === "sharedPart" &&
+        reference.templateName === sharedPartName
+      ) {
+        continue;
+      }
+      // Reconciliation texts are listed by the handle of their config.json
+      const handle =
+        reference.templateType === "reconciliationText"
+          ? this.getReconciliationHandle(reference.templateName)
+          : reference.templateName;
+      usages.set(`${reference.templateType}/${handle}`, {
+        type: reference.templateType,
+        handle,
+      });
+    }
+
+    return Array.from(usages.values()).sort(
+      (a, b) =>
+        a.type.localeCompare(b.type) || a.handle.localeCompare(b.handle),
+    );
+  }
+
+  /**
+   * Finds the templates rendering a shared part, either by including it
+   * directly or through other shared parts
+   * @param sharedPartName The name of the shared part
+   * @returns The templates sorted by type and name, shared parts excluded
+   */
+  public findTemplatesRenderingSharedPart(
+    sharedPartName: string,
+  ): { templateType: TemplateTypes; templateName: string }[] {
+    const templates = new Map<
+      string,
+      { templateType: TemplateTypes; templateName: string }
+    >();
+    const visitedSharedParts = new Set<string>([sharedPartName]);
+    const pendingSharedParts = [sharedPartName];
+
+    while (pendingSharedParts.length > 0) {
+      const partName = pendingSharedParts.pop()!;
+      for (const reference of this.findIncludeReferences(
+        "sharedPart",
+        partName,
+      )) {
+        if (reference.templateType !== "sharedPart") {
+          templates.set(`${reference.templateType}/${reference.templateName}`, {
+            templateType: reference.templateType,
+            templateName: reference.templateName,
+          });
+        } else if (!visitedSharedParts.has(reference.templateName)) {
+          visitedSharedParts.add(reference.templateName);
+          pendingSharedParts.push(reference.templateName);
+        }
+      }
+    }
+
+    return Array.from(templates.values()).sort(
+      (a, b) =>
+        a.templateType.localeCompare(b.templateType) ||
+        a.templateName.localeCompare(b.templateName),
+    );
+  }
+
+  /**
+   * Finds the directory of a reconciliation text from its handle: the folder
+   * named after the handle, or else the template whose config.json declares it
+   * @param handle The handle of the reconciliation text
+   * @returns The absolute path of the template directory, or null if not found
+   */
+  public findReconciliationDirectory(handle: string): string | null {
+    const templateDir = this.getTemplateDirectory("reconciliationText", handle);
+    if (fs.existsSync(templateDir)) {
+      return templateDir;
+    }
+
+    const template = this.listTemplates().find(
+      (template) =>
+        template.templateType === "reconciliationText" &&
+        readTemplateConfig(template.templateDir)?.handle === handle,
+    );
+    return template ? template.templateDir : null;
+  }
+
+  /**
+   * Gets the handle of a reconciliation text, as used in
+   * "period.reconciliations.<handle>" lookups
+   * @param templateName The name of the reconciliation text folder
+   * @returns The handle from its config.json, or the folder name
+   */
+  public getReconciliationHandle(templateName: string): string {
+    const handle = readTemplateConfig(
+      this.getTemplateDirectory("reconciliationText", templateName),
+    )?.handle;
+    return typeof handle === "string" ? handle : templateName;
+  }
+
+  /**
+   * Finds every lookup of a reconciliation's result in the workspace
+   * @param handle The handle of the reconciliation text defining the result
+   * @param resultName The name of the result
+   * @returns The lookups found, grouped by file
+   */
+  public findResultReferences(
+    handle: string,
+    resultName: string,
+  ): ResultReference[] {
+    const parser = new ResultReferenceParser();
+    const references: ResultReference[] = [];
+
+    for (const template of this.listTemplates()) {
+      for (const fileFullPath of this.listLiquidFiles(template.templateDir)) {
+        let resultReferences: ResultReferenceInfo[];
+        try {
+          resultReferences = parser.findAllInFile(fileFullPath);
+        } catch (error) {
+          this.logger.warn(`Could not read file: ${fileFullPath}, ${error}`);
+          continue;
+        }
+
+        for (const resultReference of resultReferences) {
+          if (
+            resultReference.handle === handle &&
+            resultReference.resultName === resultName
+          ) {
+            references.push({
+              fileFullPath,
+              templateType: template.templateType,
+              templateName: template.templateName,
+              resultReference,
+            });
+          }
+        }
+      }
+    }
+
+    this.logger.debug(
+      `Found ${references.length} lookups of result ${handle}.${resultName}`,
+    );
+    return references;
+  }
+
+  /**
+   * Reads the stats of a directory entry, e.g. to skip broken symlinks or
+   * entries that cannot be accessed
+   * @returns The stats, or null if the entry cannot be read
+   */
+  /**
+   * Gets every include tag of the workspace's template files. The workspace is
+   * scanned once, then the tags are kept in the IncludeIndex until it is invalidated.
+   */
+  private getIncludeReferences(): IncludeReference[] {
+    const index = IncludeIndex.getInstance();
+    const indexedReferences = index.get(this.workspaceRoot);
+    if (indexedReferences) {
+      return indexedReferences;
+    }
+
+    const includeParser = new IncludeParser();
+    const references: IncludeReference[] = [];
+
+    for (const template of this.listTemplates()) {
+      for (const fileFullPath of this.listLiquidFiles(template.templateDir)) {
+        let includeTags: IncludeTagInfo[];
+        try {
+          includeTags = includeParser.findAllInFile(fileFullPath);
+        } catch (error) {
+          this.logger.warn(`Could not read file: ${fileFullPath}, ${error}`);
+          continue;
+        }
+
+        for (const includeTag of includeTags) {
+          references.push({
+            fileFullPath,
+            templateType: template.templateType,
+            templateName: template.templateName,
+            includeTag,
+          });
+        }
+      }
+    }
+
+    index.set(this.workspaceRoot, references);
+    return references;
+  }
+
+  private statEntry(entryPath: string): fs.Stats | null {
+    try {
+      return fs.statSync(entryPath);
+    } catch (error) {
+      this.logger.warn(`Could not read ${entryPath}: ${error}`);
+      return null;
+    }
+  }
+
+  private readDirectory(directory: string): string[] {
+    try {
+      if (!fs.existsSync(directory)) {
+        return [];
+      }
+      return fs.readdirSync(directory);
+    } catch (error) {
+      this.logger.warn(`Could not read directory ${directory}: ${error}`);
+      return [];
+    }
+  }
+}
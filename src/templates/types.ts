@@ -1,3 +1,9 @@
+import {
+  CustomDropInfo,
+  IncludeTagInfo,
+  ResultReferenceInfo,
+} from "../liquid/types";
+
 export type TemplateTypes =
   | "reconciliationText"
   | "sharedPart"
@@ -36,3 +42,58 @@ export interface TemplateUriInfo {
   partName: string;
   fullPath: string;
 }
+
+// A template found in the workspace
+export interface TemplateInfo {
+  templateType: TemplateTypes;
+  templateName: string;
+  templateDir: string;
+}
+
+// An include tag found in a template file
+export interface IncludeReference {
+  fileFullPath: string;
+  templateType: TemplateTypes;
+  templateName: string;
+  includeTag: IncludeTagInfo;
+}
+
+// A lookup of a reconciliation's result found in a template file
+export interface ResultReference {
+  fileFullPath: string;
+  templateType: TemplateTypes;
+  templateName: string;
+  resultReference: ResultReferenceInfo;
+}
+
+// A custom drop found in a template file
+export interface CustomDropReference {
+  fileFullPath: string;
+  drop: CustomDropInfo;
+}
+
+// Entry of a shared part's config.json "used_in" list
+export interface SharedPartUsage {
+  type: TemplateTypes;
+  handle: string;
+  [key: string]: unknown;
+}
+
+// Subset of a template's config.json used by the language server
+export interface TemplateConfig {
+  handle?: string;
+  name?: string;
+  text?: string;
+  text_parts?: Record<string, string>;
+  used_in?: unknown[]; // entries are not validated, see isSharedPartUsage
+  [key: string]: unknown;
+}
+
+// Keys every config.json must define, per template type. Reconciliation texts
+// are looked up by handle, the other templates are identified by their folder.
+export const RequiredConfigKeys: Record<TemplateTypes, string[]> = {
+  reconciliationText: ["handle"],
+  accountTemplate: [],
+  exportFile: [],
+  sharedPart: [],
+};
@@ -0,0 +1,235 @@
+import { Logger } from "../logger";
+import * as Parser from "tree-sitter";
+import {
+  Range,
+  SymbolInformation,
+  SymbolKind,
+} from "vscode-languageserver/node";
+import { URI } from "vscode-uri";
+import { LiquidTreeCache } from "../liquid/liquidTreeCache";
+import { LiquidTagIdentifier } from "../liquid/liquidTagIdentifier";
+import { LiquidTagFinder } from "../liquid/liquidTagFinder";
+import { LiquidNodeTypes } from "../liquid/types";
+import { TemplatePartsCollectionManager } from "./templatePartsCollectionManager";
+import { TemplateWorkspaceScanner } from "./templateWorkspaceScanner";
+import { TemplateInfo } from "./types";
+
+/**
+ * Singleton class that indexes the symbols of every template in the workspace:
+ * template handles, text part names, translation keys, result names and
+ * top-level variables.
+ * The index is built on first use and kept until it is invalidated.
+ *
+ * @example
+ * const index = WorkspaceSymbolIndex.getInstance(workspaceRoot);
+ * const symbols = await index.search('reconciliation_text_3');
+ */
+export class WorkspaceSymbolIndex {
+  private static instance: WorkspaceSymbolIndex | null = null;
+  private logger: Logger = new Logger("WorkspaceSymbolIndex");
+  private workspaceRoot: string;
+  private symbols: SymbolInformation[] | null = null;
+
+  private constructor(workspaceRoot: string) {
+    this.workspaceRoot = workspaceRoot;
+  }
+
+  /**
+   * Gets the singleton instance of WorkspaceSymbolIndex
+   * @param workspaceRoot The workspace root path (required on first call)
+   * @returns The singleton instance
+   */
+  public static getInstance(workspaceRoot?: string): WorkspaceSymbolIndex {
+    if (!WorkspaceSymbolIndex.instance) {
+      if (!workspaceRoot) {
+        throw new Error(
+          "workspaceRoot is required when creating the first instance",
+        );
+      }
+      WorkspaceSymbolIndex.instance = new WorkspaceSymbolIndex(workspaceRoot);
+    }
+    return WorkspaceSymbolIndex.instance;
+  }
+
+  /**
+   * Finds the symbols whose name contains the query, ignoring case.
+   * Symbols starting with the query are listed first.
+   * @param query The text typed in the symbol picker
+   * @returns The matching symbols
+   */
+  public async search(query: string): Promise<SymbolInformation[]> {
+    const symbols = await this.getSymbols();
+    const normalizedQuery = query.toLowerCase();
+
+    const matches = symbols.filter((symbol) =>
+      symbol.name.toLowerCase().includes(normalizedQuery),
+    );
+    const startsWithQuery = (symbol: SymbolInformation) =>
+      symbol.name.toLowerCase().startsWith(normalizedQuery) ? 0 : 1;
+
+    return matches.sort((a, b) => startsWithQuery(a) - startsWithQuery(b));
+  }
+
+  /**
+   * Drops the index, so it is rebuilt on the next search
+   */
+  public invalidate(): void {
+    this.logger.debug("Workspace symbol index invalidated");
+    this.symbols = null;
+  }
+
+  private async getSymbols(): Promise<SymbolInformation[]> {
+    if (!this.symbols) {
+      this.symbols = await this.buildIndex();
+      this.logger.debug(`Indexed ${this.symbols.length} workspace symbols`);
+    }
+    return this.symbols;
+  }
+
+  private async buildIndex(): Promise<SymbolInformation[]> {
+    const scanner = new TemplateWorkspaceScanner(this.workspaceRoot);
+    const symbols: SymbolInformation[] = [];
+
+    for (const template of scanner.listTemplates()) {
+      symbols.push(...(await this.indexTemplate(template, scanner)));
+    }
+
+    return symbols;
+  }
+
+  /**
+   * Indexes a template and the files it owns. Shared parts included by the
+   * template are indexed with their own template, not once per include.
+   */
+  private async indexTemplate(
+    template: TemplateInfo,
+    scanner: TemplateWorkspaceScanner,
+  ): Promise<SymbolInformation[]> {
+    const templateManager = TemplatePartsCollectionManager.getInstance(
+      this.workspaceRoot,
+    );
+    const templateParts = await templateManager.getMap(
+      template.templateType,
+      template.templateName,
+    );
+
+    // Templates that cannot be mapped (e.g. shared parts) fall back to their files on disk
+    const ownParts = (templateParts ?? []).filter(
+      (part) => part.type !== "sharedPart",
+    );
+    const files = ownParts.length
+      ? Array.from(new Set(ownParts.map((part) => part.fileFullPath)))
+      : scanner.listLiquidFiles(template.templateDir);
+    if (files.length === 0) {
+      return [];
+    }
+
+    const symbols: SymbolInformation[] = [
+      SymbolInformation.create(
+        template.templateName,
+        SymbolKind.Module,
+        this.fileStartRange(),
+        URI.file(files[0]).toString(),
+        template.templateType,
+      ),
+    ];
+
+    const textParts = new Map(
+      ownParts
+        .filter((part) => part.type === "textPart")
+        .map((part) => [part.name, part.fileFullPath]),
+    );
+    for (const [partName, fileFullPath] of textParts) {
+      symbols.push(
+        SymbolInformation.create(
+          partName,
+          SymbolKind.File,
+          this.fileStartRange(),
+          URI.file(fileFullPath).toString(),
+          template.templateName,
+        ),
+      );
+    }
+
+    for (const fileFullPath of files) {
+      symbols.push(...this.indexFile(fileFullPath, template.templateName));
+    }
+
+    return symbols;
+  }
+
+  /**
+   * Collects translation definitions, results and top-level variables of a file
+   */
+  private indexFile(
+    fileFullPath: string,
+    containerName: string,
+  ): SymbolInformation[] {
+    let tree: Parser.Tree | null;
+    try {
+      tree = LiquidTreeCache.getInstance().getTree(fileFullPath);
+    } catch (error) {
+      this.logger.warn(`Could not read file: ${fileFullPath}, ${error}`);
+      return [];
+    }
+    if (!tree) {
+      return [];
+    }
+
+    const uri = URI.file(fileFullPath).toString();
+    const identifier = new LiquidTagIdentifier();
+    const finder = new LiquidTagFinder();
+    const symbols: SymbolInformation[] = [];
+
+    for (const node of tree.rootNode.descendantsOfType([
+      LiquidNodeTypes.TranslationStatement,
+      LiquidNodeTypes.ResultStatement,
+      LiquidNodeTypes.AssignmentStatement,
+      LiquidNodeTypes.CaptureStatement,
+    ])) {
+      let name: string | null = null;
+      let kind: SymbolKind = SymbolKind.Variable;
+
+      if (node.type === LiquidNodeTypes.TranslationStatement) {
+        name = identifier.identifyNodeKey(node);
+        kind = SymbolKind.String;
+      } else if (node.type === LiquidNodeTypes.ResultStatement) {
+        name = identifier.identifyResultName(node);
+        kind = SymbolKind.Field;
+      } else if (node.parent?.type === "program") {
+        name = finder.getDefinedVariableName(node);
+      }
+
+      if (name) {
+        symbols.push(
+          SymbolInformation.create(
+            name,
+            kind,
+            this.getNodeRange(node),
+            uri,
+            containerName,
+          ),
+        );
+      }
+    }
+
+    return symbols;
+  }
+
+  private getNodeRange(node: Parser.SyntaxNode): Range {
+    return {
+      start: {
+        line: node.startPosition.row,
+        character: node.startPosition.column,
+      },
+      end: {
+        line: node.endPosition.row,
+        character: node.endPosition.column,
+      },
+    };
+  }
+
+  private fileStartRange(): Range {
+    return { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } };
+  }
+}
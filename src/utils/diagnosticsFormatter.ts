@@ -0,0 +1,100 @@
+import * as path from "path";
+import { Diagnostic, DiagnosticSeverity } from "vscode-languageserver/node";
+import { DiagnosticSource } from "../lspCapabilities/types";
+
+export const OUTPUT_FORMATS = ["human", "json", "sarif"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export interface FileDiagnostics {
+  filePath: string; // relative to the checked root
+  diagnostics: Diagnostic[];
+}
+
+function severityName(severity: DiagnosticSeverity | undefined): string {
+  switch (severity) {
+    case DiagnosticSeverity.Error:
+      return "error";
+    case DiagnosticSeverity.Warning:
+      return "warning";
+    default:
+      return "info";
+  }
+}
+
+/**
+ * Formats the results as one line per diagnostic, followed by a summary
+ */
+export function formatHuman(results: FileDiagnostics[]): string {
+  const lines: string[] = [];
+  let errors = 0;
+  let warnings = 0;
+
+  for (const { filePath, diagnostics } of results) {
+    for (const diagnostic of diagnostics) {
+      const { line, character } = diagnostic.range.start;
+      lines.push(
+        `${filePath}:${line + 1}:${character + 1}  ${severityName(diagnostic.severity)}  ${diagnostic.message}`,
+      );
+      if (diagnostic.severity === DiagnosticSeverity.Error) {
+        errors++;
+      } else if (diagnostic.severity === DiagnosticSeverity.Warning) {
+        warnings++;
+      }
+    }
+  }
+
+  lines.push(
+    `${errors} errors, ${warnings} warnings in ${results.length} files`,
+  );
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Formats the results as the JSON list of files and their diagnostics
+ */
+export function formatJson(results: FileDiagnostics[]): string {
+  return JSON.stringify(results, null, 2) + "\n";
+}
+
+/**
+ * Formats the results as a SARIF 2.1.0 log, as consumed by code scanning tools
+ */
+export function formatSarif(results: FileDiagnostics[]): string {
+  const sarifResults = results.flatMap(({ filePath, diagnostics }) =>
+    diagnostics.map((diagnostic) => ({
+      ruleId: String(diagnostic.code ?? DiagnosticSource),
+      level:
+        diagnostic.severity === DiagnosticSeverity.Error
+          ? "error"
+          : diagnostic.severity === DiagnosticSeverity.Warning
+            ? "warning"
+            : "note",
+      message: { text: diagnostic.message },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: filePath.split(path.sep).join("/") },
+            region: {
+              startLine: diagnostic.range.start.line + 1,
+              startColumn: diagnostic.range.start.character + 1,
+              endLine: diagnostic.range.end.line + 1,
+              endColumn: diagnostic.range.end.character + 1,
+            },
+          },
+        },
+      ],
+    })),
+  );
+
+  const sarifLog = {
+    version: "2.1.0",
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    runs: [
+      {
+        tool: { driver: { name: DiagnosticSource } },
+        results: sarifResults,
+      },
+    ],
+  };
+  return JSON.stringify(sarifLog, null, 2) + "\n";
+}
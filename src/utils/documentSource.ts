@@ -0,0 +1,85 @@
+import { Logger } from "../logger";
+import * as fs from "fs";
+import { TextDocuments } from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+
+/**
+ * Singleton class that provides file contents to every subsystem.
+ * Documents open in the editor are read from their in-memory version, so
+ * unsaved changes are taken into account. Other files are read from disk.
+ *
+ * @example
+ * DocumentSource.getInstance().setDocuments(documents);
+ * const content = DocumentSource.getInstance().readFile(filePath);
+ */
+export class DocumentSource {
+  private static instance: DocumentSource | null = null;
+  private logger: Logger = new Logger("DocumentSource");
+  private documents: TextDocuments<TextDocument> | null = null;
+
+  private constructor() {}
+
+  /**
+   * Gets the singleton instance of DocumentSource
+   * @returns The singleton instance
+   */
+  public static getInstance(): DocumentSource {
+    if (!DocumentSource.instance) {
+      DocumentSource.instance = new DocumentSource();
+    }
+    return DocumentSource.instance;
+  }
+
+  /**
+   * Sets the store of documents open in the editor
+   * @param documents The documents managed by the server
+   */
+  public setDocuments(documents: TextDocuments<TextDocument>): void {
+    this.documents = documents;
+  }
+
+  /**
+   * Gets the open document for a file, if any
+   * @param filePath The absolute path of the file
+   * @returns The open document, or undefined if the file is not open
+   */
+  public getOpenDocument(filePath: string): TextDocument | undefined {
+    return this.documents
+      ?.all()
+      .find((document) => URI.parse(document.uri).fsPath === filePath);
+  }
+
+  /**
+   * Reads a file, preferring the content of the open document
+   * @param filePath The absolute path of the file
+   * @returns The file content
+   * @throws If the file is not open and cannot be read from disk
+   */
+  public readFile(filePath: string): string {
+    const openDocument = this.getOpenDocument(filePath);
+    if (openDocument) {
+      this.logger.debug(`Reading open document: ${filePath}`);
+      return openDocument.getText();
+    }
+    return fs.readFileSync(filePath, "utf8");
+  }
+
+  /**
+   * Reads a document by URI, preferring the content of the open document
+   * @param textDocumentUri The URI of the document
+   * @returns The document content
+   * @throws If the document is not open and cannot be read from disk
+   */
+  public readUri(textDocumentUri: string): string {
+    return this.readFile(URI.parse(textDocumentUri).fsPath);
+  }
+
+  /**
+   * Checks whether a file exists, either open in the editor or on disk
+   * @param filePath The absolute path of the file
+   */
+  public exists(filePath: string): boolean {
+    return !!this.getOpenDocument(filePath) || fs.existsSync(filePath);
+  }
+}
@@ -0,0 +1,47 @@
+import * as path from "path";
+import { Logger } from "../logger";
+import { SharedPartUsage, TemplateConfig } from "../templates/types";
+import { DocumentSource } from "./documentSource";
+
+const logger = new Logger("TemplateConfigReader");
+
+/**
+ * Checks if an entry of a shared part's "used_in" list is an object with a
+ * type and a handle
+ * @param entry The entry as read from the config.json
+ */
+export function isSharedPartUsage(entry: unknown): entry is SharedPartUsage {
+  return (
+    !!entry &&
+    typeof entry === "object" &&
+    !Array.isArray(entry) &&
+    typeof (entry as SharedPartUsage).type === "string" &&
+    typeof (entry as SharedPartUsage).handle === "string"
+  );
+}
+
+/**
+ * Reads and parses the config.json of a template directory
+ * @param templateDir The template directory containing the config.json
+ * @returns The parsed config or null if it does not exist or is invalid
+ */
+export function readTemplateConfig(templateDir: string): TemplateConfig | null {
+  const configPath = path.join(templateDir, "config.json");
+
+  try {
+    if (!DocumentSource.getInstance().exists(configPath)) {
+      logger.debug(`Config file does not exist: ${configPath}`);
+      return null;
+    }
+    const content = DocumentSource.getInstance().readFile(configPath);
+    const config = JSON.parse(content);
+    if (!config || typeof config !== "object" || Array.isArray(config)) {
+      logger.warn(`Config file is not a JSON object: ${configPath}`);
+      return null;
+    }
+    return config as TemplateConfig;
+  } catch (error) {
+    logger.warn(`Could not read config file ${configPath}: ${error}`);
+    return null;
+  }
+}
@@ -1,4 +1,6 @@
 import { URI } from "vscode-uri";
+import * as path from "path";
+import { readTemplateConfig } from "./templateConfigReader";
 import {
   TemplateTypes,
   TemplateDirectories,
@@ -92,6 +94,25 @@ export function parseTemplateUri(uri: string): TemplateUriInfo | null {
             fullPath: fullPath,
           };
         }
+
+        // Check if it's a text part mapped to a custom location in config.json
+        const templateDir = path.join(
+          "/",
+          ...pathSegments.slice(0, dirIndex + 2),
+        );
+        const textParts = readTemplateConfig(templateDir)?.text_parts ?? {};
+        const configuredPartName = Object.keys(textParts).find(
+          (name) => path.join(templateDir, textParts[name]) === fullPath,
+        );
+        if (configuredPartName) {
+          return {
+            templateType: templateType as TemplateTypes,
+            templateName: templateName,
+            partType: "textPart",
+            partName: configuredPartName,
+            fullPath: fullPath,
+          };
+        }
       }
     }
 
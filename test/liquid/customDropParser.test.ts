@@ -0,0 +1,88 @@
+import { CustomDropParser } from "../../src/liquid/customDropParser";
+
+describe("CustomDropParser", () => {
+  const parser = new CustomDropParser();
+
+  describe("findAll", () => {
+    it("finds custom drops in output and tags", () => {
+      const text = [
+        "{{ custom.depreciation.passed }}",
+        "{% if custom.depreciation.rate > 0 %}yes{% endif %}",
+      ].join("\n");
+
+      expect(parser.findAll(text)).toEqual([
+        {
+          namespace: "depreciation",
+          key: "passed",
+          usage: "read",
+          startPosition: { row: 0, column: 3 },
+          endPosition: { row: 0, column: 29 },
+        },
+        {
+          namespace: "depreciation",
+          key: "rate",
+          usage: "read",
+          startPosition: { row: 1, column: 6 },
+          endPosition: { row: 1, column: 30 },
+        },
+      ]);
+    });
+
+    it("identifies inputs from the first argument of {% input %}", () => {
+      const text =
+        "{% input custom.depreciation.passed as:currency placeholder:custom.depreciation.default %}";
+
+      expect(parser.findAll(text)).toMatchObject([
+        { namespace: "depreciation", key: "passed", usage: "input" },
+        { namespace: "depreciation", key: "default", usage: "read" },
+      ]);
+    });
+
+    it("identifies rollforwards", () => {
+      const text =
+        "{% rollforward custom.depreciation.current custom.depreciation.passed %}";
+
+      expect(parser.findAll(text)).toMatchObject([
+        { key: "current", usage: "rollforward" },
+        { key: "passed", usage: "rollforward" },
+      ]);
+    });
+
+    it("ignores drops in plain text, strings and comments", () => {
+      const text = [
+        "custom.depreciation.passed",
+        "{{ 'custom.depreciation.passed' }}",
+        "{% input custom.depreciation.passed placeholder:'custom.notes.text' %}",
+        "{% comment %}{{ custom.depreciation.passed }}{% endcomment %}",
+      ].join("\n");
+
+      expect(parser.findAll(text)).toMatchObject([
+        {
+          key: "passed",
+          usage: "input",
+          startPosition: { row: 2, column: 9 },
+        },
+      ]);
+    });
+
+    it("ignores drops without a key", () => {
+      expect(parser.findAll("{{ custom.depreciation }}")).toEqual([]);
+    });
+  });
+
+  describe("identifyAtPosition", () => {
+    const text = "{% input custom.depreciation.passed as:currency %}";
+
+    it("returns the drop under the position", () => {
+      expect(parser.identifyAtPosition(text, 0, 20)).toMatchObject({
+        namespace: "depreciation",
+        key: "passed",
+        usage: "input",
+      });
+    });
+
+    it("returns null outside a drop", () => {
+      expect(parser.identifyAtPosition(text, 0, 40)).toBeNull();
+    });
+  });
+});
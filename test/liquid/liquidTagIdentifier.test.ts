@@ -0,0 +1,76 @@
+import { LiquidTagIdentifier } from "../../src/liquid/liquidTagIdentifier";
+
+describe("LiquidTagIdentifier.identifyCompletionContext", () => {
+  const identifier = new LiquidTagIdentifier();
+
+  /**
+   * Identifies the context at the end of the text, the cursor being at "|"
+   */
+  const contextAt = (textWithCursor: string) => {
+    const cursorOffset = textWithCursor.indexOf("|");
+    const textBeforeCursor = textWithCursor.substring(0, cursorOffset);
+    const lines = textBeforeCursor.split("\n");
+    return identifier.identifyCompletionContext(
+      textWithCursor.replace("|", ""),
+      lines.length - 1,
+      lines[lines.length - 1].length,
+    );
+  };
+
+  it("identifies tag names after {%", () => {
+    expect(contextAt("{% ass|")).toEqual({ kind: "tagName", prefix: "ass" });
+    expect(contextAt("{%- |")).toEqual({ kind: "tagName", prefix: "" });
+  });
+
+  it("identifies translation keys", () => {
+    expect(contextAt("{% t 'tit|")).toEqual({
+      kind: "translationKey",
+      prefix: "tit",
+    });
+  });
+
+  it("identifies include paths", () => {
+    expect(contextAt("{% include 'parts/pa|")).toEqual({
+      kind: "includePath",
+      prefix: "parts/pa",
+    });
+    expect(contextAt("{% include 'shared/|")).toEqual({
+      kind: "includePath",
+      prefix: "shared/",
+    });
+  });
+
+  it("does not extend string prefixes over several lines", () => {
+    expect(contextAt("{% include 'parts/a\nfoo|")).toBeNull();
+    expect(contextAt("{% t 'title\nfoo|")).toBeNull();
+  });
+
+  it("identifies custom drop namespaces and keys", () => {
+    expect(contextAt("{{ custom.|")).toEqual({
+      kind: "customDrop",
+      prefix: "",
+    });
+    expect(contextAt("{% if custom.depreciation.pa|")).toEqual({
+      kind: "customDrop",
+      prefix: "depreciation.pa",
+    });
+  });
+
+  it("identifies variables in output and expressions", () => {
+    expect(contextAt("{{ my_v|")).toEqual({ kind: "variable", prefix: "my_v" });
+    expect(contextAt("{% assign total = amou|")).toEqual({
+      kind: "variable",
+      prefix: "amou",
+    });
+  });
+
+  it("returns null outside Liquid tags and inside strings", () => {
+    expect(contextAt("plain text|")).toBeNull();
+    expect(contextAt("{{ value }} after|")).toBeNull();
+    expect(contextAt("{{ 'some text|")).toBeNull();
+  });
+
+  it("returns null for a line past the end of the text", () => {
+    expect(identifier.identifyCompletionContext("{{ a }}", 3, 0)).toBeNull();
+  });
+});
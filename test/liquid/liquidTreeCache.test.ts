@@ -0,0 +1,128 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as Parser from "tree-sitter";
+import { URI } from "vscode-uri";
+import { TextDocuments } from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { LiquidTreeCache } from "../../src/liquid/liquidTreeCache";
+import { DocumentSource } from "../../src/utils/documentSource";
+
+describe("LiquidTreeCache", () => {
+  const cache = LiquidTreeCache.getInstance();
+  let workspaceRoot: string;
+  let openDocuments: TextDocument[];
+
+  const identifiers = (tree: Parser.Tree | null) =>
+    tree?.rootNode.descendantsOfType("identifier").map((node) => node.text);
+
+  beforeAll(() => {
+    // Only the lookup of open documents is used by the cache
+    DocumentSource.getInstance().setDocuments({
+      all: () => openDocuments,
+    } as unknown as TextDocuments<TextDocument>);
+  });
+
+  beforeEach(() => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), "liquid-ls-"));
+    openDocuments = [];
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  describe("getTree", () => {
+    it("reuses the tree of a file unchanged on disk", () => {
+      const filePath = path.join(workspaceRoot, "main.liquid");
+      fs.writeFileSync(filePath, "{{ total }}\n");
+
+      const tree = cache.getTree(filePath);
+
+      expect(identifiers(tree)).toEqual(["total"]);
+      expect(cache.getTree(filePath)).toBe(tree);
+    });
+
+    it("reparses a file modified on disk", () => {
+      const filePath = path.join(workspaceRoot, "main.liquid");
+      fs.writeFileSync(filePath, "{{ total }}\n");
+      cache.getTree(filePath);
+
+      fs.writeFileSync(filePath, "{{ amount }}\n");
+      const later = new Date(Date.now() + 10000);
+      fs.utimesSync(filePath, later, later);
+
+      expect(identifiers(cache.getTree(filePath))).toEqual(["amount"]);
+    });
+  });
+
+  describe("applyChanges", () => {
+    const openDocument = (filePath: string, text: string) => {
+      const document = TextDocument.create(
+        URI.file(filePath).toString(),
+        "liquid",
+        1,
+        text,
+      );
+      openDocuments = [document];
+      return document;
+    };
+
+    it("reparses an edited document from its edited tree", () => {
+      const filePath = path.join(workspaceRoot, "main.liquid");
+      const document = openDocument(
+        filePath,
+        "{% assign a = 1 %}\n{{ total }}\n",
+      );
+      cache.getTree(filePath);
+
+      const changes = [
+        {
+          range: {
+            start: { line: 1, character: 3 },
+            end: { line: 1, character: 8 },
+          },
+          text: "amount",
+        },
+      ];
+      cache.applyChanges(document, changes);
+      openDocuments = [TextDocument.update(document, changes, 2)];
+
+      expect(identifiers(cache.getTree(filePath))).toEqual(["a", "amount"]);
+    });
+
+    it("parses from scratch when the edits do not match the document", () => {
+      const filePath = path.join(workspaceRoot, "main.liquid");
+      const document = openDocument(filePath, "{{ total }}\n");
+      cache.getTree(filePath);
+
+      cache.applyChanges(document, [
+        {
+          range: {
+            start: { line: 0, character: 3 },
+            end: { line: 0, character: 8 },
+          },
+          text: "amount",
+        },
+      ]);
+      openDocuments = [
+        TextDocument.create(document.uri, "liquid", 2, "{{ other }}\n"),
+      ];
+
+      expect(identifiers(cache.getTree(filePath))).toEqual(["other"]);
+    });
+  });
+
+  describe("parseText", () => {
+    it("reuses the tree of a cached file with the same content", () => {
+      const filePath = path.join(workspaceRoot, "main.liquid");
+      fs.writeFileSync(filePath, "{{ total }}\n");
+      const tree = cache.getTree(filePath);
+
+      expect(cache.parseText("{{ total }}\n")).toBe(tree);
+      expect(identifiers(cache.parseText("{{ amount }}\n"))).toEqual([
+        "amount",
+      ]);
+    });
+  });
+});
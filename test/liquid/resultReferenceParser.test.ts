@@ -0,0 +1,68 @@
+import { ResultReferenceParser } from "../../src/liquid/resultReferenceParser";
+
+describe("ResultReferenceParser", () => {
+  const parser = new ResultReferenceParser();
+
+  describe("findAll", () => {
+    it("finds result lookups in output and tags", () => {
+      const text = [
+        "{{ period.reconciliations.balance_check.results.total }}",
+        "{% if period.reconciliations.fixed-assets.results.sum > 0 %}yes{% endif %}",
+      ].join("\n");
+
+      expect(parser.findAll(text)).toEqual([
+        {
+          handle: "balance_check",
+          resultName: "total",
+          startPosition: { row: 0, column: 3 },
+          endPosition: { row: 0, column: 53 },
+        },
+        {
+          handle: "fixed-assets",
+          resultName: "sum",
+          startPosition: { row: 1, column: 6 },
+          endPosition: { row: 1, column: 50 },
+        },
+      ]);
+    });
+
+    it("finds lookups used in filters", () => {
+      const text =
+        "{% assign total = period.reconciliations.vat.results.due | plus: 1 %}";
+
+      expect(parser.findAll(text)).toMatchObject([
+        { handle: "vat", resultName: "due" },
+      ]);
+    });
+
+    it("ignores lookups in plain text, strings and comments", () => {
+      const text = [
+        "period.reconciliations.vat.results.due",
+        "{{ 'period.reconciliations.vat.results.due' }}",
+        "{% comment %}period.reconciliations.vat.results.due{% endcomment %}",
+      ].join("\n");
+
+      expect(parser.findAll(text)).toEqual([]);
+    });
+
+    it("ignores other period drops", () => {
+      expect(parser.findAll("{{ period.year_end_date }}")).toEqual([]);
+    });
+  });
+
+  describe("identifyAtPosition", () => {
+    const text = "{{ period.reconciliations.balance_check.results.total }}";
+
+    it("returns the lookup under the position", () => {
+      expect(parser.identifyAtPosition(text, 0, 30)).toMatchObject({
+        handle: "balance_check",
+        resultName: "total",
+      });
+    });
+
+    it("returns null outside a lookup", () => {
+      expect(parser.identifyAtPosition(text, 0, 1)).toBeNull();
+      expect(parser.identifyAtPosition(text, 1, 0)).toBeNull();
+    });
+  });
+});
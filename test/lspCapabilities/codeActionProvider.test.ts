@@ -0,0 +1,119 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { URI } from "vscode-uri";
+import { CodeAction, DiagnosticSeverity } from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { CodeActionProvider } from "../../src/lspCapabilities/codeActionProvider";
+import {
+  DiagnosticSource,
+  UsedInDiagnosticCodes,
+} from "../../src/lspCapabilities/types";
+
+describe("CodeActionProvider", () => {
+  let workspaceRoot: string;
+
+  const writeFile = (relativePath: string, content: string) => {
+    const filePath = path.join(workspaceRoot, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  // Applies the quick fix to the config of the "footer" shared part
+  const applyQuickFix = async (): Promise<unknown> => {
+    const configPath = path.join(
+      workspaceRoot,
+      "shared_parts/footer/config.json",
+    );
+    const uri = URI.file(configPath).toString();
+    const range = {
+      start: { line: 0, character: 0 },
+      end: { line: 0, character: 1 },
+    };
+    const actions = (await new CodeActionProvider(
+      {
+        textDocument: { uri },
+        range,
+        context: {
+          diagnostics: [
+            {
+              range,
+              message: "used_in is out of date",
+              severity: DiagnosticSeverity.Warning,
+              source: DiagnosticSource,
+              code: UsedInDiagnosticCodes.missing,
+            },
+          ],
+        },
+      },
+      workspaceRoot,
+    ).handleCodeActionRequest()) as CodeAction[];
+
+    const document = TextDocument.create(
+      uri,
+      "json",
+      0,
+      fs.readFileSync(configPath, "utf8"),
+    );
+    return JSON.parse(
+      TextDocument.applyEdits(document, actions[0].edit!.changes![uri]),
+    );
+  };
+
+  beforeEach(() => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), "liquid-ls-"));
+    writeFile("shared_parts/footer/footer.liquid", "Footer\n");
+    writeFile(
+      "reconciliation_texts/balance/main.liquid",
+      "{% include 'shared/footer' %}\n",
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it("replaces the used_in list, keeping the entries still in use", async () => {
+    writeFile(
+      "account_templates/assets/main.liquid",
+      "{% include 'shared/footer' %}\n",
+    );
+    writeFile(
+      "shared_parts/footer/config.json",
+      JSON.stringify(
+        {
+          text: "footer.liquid",
+          used_in: [
+            { id: 1, type: "accountTemplate", handle: "assets" },
+            { id: 2, type: "reconciliationText", handle: "removed" },
+            "invalid",
+          ],
+          name: "footer",
+        },
+        null,
+        2,
+      ),
+    );
+
+    expect(await applyQuickFix()).toEqual({
+      text: "footer.liquid",
+      used_in: [
+        { id: 1, type: "accountTemplate", handle: "assets" },
+        { type: "reconciliationText", handle: "balance" },
+      ],
+      name: "footer",
+    });
+  });
+
+  it("adds a missing used_in list", async () => {
+    writeFile(
+      "shared_parts/footer/config.json",
+      JSON.stringify({ text: "footer.liquid" }, null, 2),
+    );
+
+    expect(await applyQuickFix()).toEqual({
+      text: "footer.liquid",
+      used_in: [{ type: "reconciliationText", handle: "balance" }],
+    });
+  });
+});
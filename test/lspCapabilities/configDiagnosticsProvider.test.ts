@@ -0,0 +1,100 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { URI } from "vscode-uri";
+import { DiagnosticSeverity } from "vscode-languageserver/node";
+import { ConfigDiagnosticsProvider } from "../../src/lspCapabilities/configDiagnosticsProvider";
+
+describe("ConfigDiagnosticsProvider", () => {
+  let workspaceRoot: string;
+
+  const writeFile = (relativePath: string, content: string) => {
+    const filePath = path.join(workspaceRoot, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  const check = (relativePath: string) =>
+    new ConfigDiagnosticsProvider(
+      URI.file(path.join(workspaceRoot, relativePath)).toString(),
+      workspaceRoot,
+    ).handleDiagnosticsRequest();
+
+  beforeEach(() => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), "liquid-ls-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  describe("required keys", () => {
+    it("reports a reconciliation text without handle", async () => {
+      writeFile("reconciliation_texts/balance/main.liquid", "Balance\n");
+      writeFile(
+        "reconciliation_texts/balance/config.json",
+        JSON.stringify({ text: "main.liquid" }),
+      );
+
+      expect(
+        await check("reconciliation_texts/balance/config.json"),
+      ).toMatchObject([
+        {
+          message: expect.stringContaining("handle"),
+          severity: DiagnosticSeverity.Error,
+        },
+      ]);
+    });
+
+    it("accepts other templates with only their files listed", async () => {
+      writeFile("account_templates/assets/main.liquid", "Assets\n");
+      writeFile(
+        "account_templates/assets/config.json",
+        JSON.stringify({ text: "main.liquid" }),
+      );
+      writeFile("shared_parts/footer/footer.liquid", "Footer\n");
+      writeFile(
+        "shared_parts/footer/config.json",
+        JSON.stringify({ text: "footer.liquid", used_in: [] }),
+      );
+
+      expect(await check("account_templates/assets/config.json")).toEqual([]);
+      expect(await check("shared_parts/footer/config.json")).toEqual([]);
+    });
+  });
+
+  describe("text_parts", () => {
+    it("reports text_parts that is not an object", async () => {
+      writeFile("account_templates/assets/main.liquid", "Assets\n");
+      writeFile(
+        "account_templates/assets/config.json",
+        JSON.stringify({ text: "main.liquid", text_parts: ["part_1"] }),
+      );
+
+      expect(await check("account_templates/assets/config.json")).toMatchObject(
+        [
+          {
+            message:
+              "text_parts must be an object mapping part names to file paths",
+            severity: DiagnosticSeverity.Error,
+          },
+        ],
+      );
+    });
+
+    it("reports text parts pointing to missing files", async () => {
+      writeFile("account_templates/assets/main.liquid", "Assets\n");
+      writeFile(
+        "account_templates/assets/config.json",
+        JSON.stringify({
+          text: "main.liquid",
+          text_parts: { part_1: "text_parts/part_1.liquid" },
+        }),
+      );
+
+      expect(await check("account_templates/assets/config.json")).toMatchObject(
+        [{ message: "Text part file not found: text_parts/part_1.liquid" }],
+      );
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { URI } from "vscode-uri";
+import { DiagnosticSeverity } from "vscode-languageserver/node";
+import { DiagnosticsProvider } from "../../src/lspCapabilities/diagnosticsProvider";
+import { DiagnosticsOptions } from "../../src/lspCapabilities/types";
+
+describe("DiagnosticsProvider", () => {
+  let workspaceRoot: string;
+
+  const writeFile = (relativePath: string, content: string) => {
+    const filePath = path.join(workspaceRoot, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  const diagnose = async (
+    relativePath: string,
+    options?: Partial<DiagnosticsOptions>,
+  ) =>
+    (
+      await new DiagnosticsProvider(
+        URI.file(path.join(workspaceRoot, relativePath)).toString(),
+        workspaceRoot,
+        options,
+      ).handleDiagnosticsRequest()
+    ).map(({ range, message, severity }) => ({
+      line: range.start.line,
+      message,
+      severity,
+    }));
+
+  // The template collection is a singleton bound to the first workspace root,
+  // so every test shares one workspace
+  beforeAll(() => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), "liquid-ls-"));
+    writeFile("shared_parts/footer/footer.liquid", "Footer\n");
+    writeFile(
+      "reconciliation_texts/includes/main.liquid",
+      [
+        "{% include 'parts/intro' %}",
+        "{% include 'parts/missing' %}",
+        "{% include 'shared/footer' %}",
+        "{% include 'shared/missing' %}",
+        "",
+      ].join("\n"),
+    );
+    writeFile("reconciliation_texts/includes/text_parts/intro.liquid", "Hi\n");
+    writeFile(
+      "reconciliation_texts/cycle/main.liquid",
+      "{% include 'parts/first' %}\n",
+    );
+    writeFile(
+      "reconciliation_texts/cycle/text_parts/first.liquid",
+      "{% include 'parts/second' %}\n",
+    );
+    writeFile(
+      "reconciliation_texts/cycle/text_parts/second.liquid",
+      "{% include 'parts/first' %}\n",
+    );
+    writeFile(
+      "reconciliation_texts/variables/main.liquid",
+      [
+        "{% assign total = 1 %}",
+        "{{ total }}",
+        "{{ later }}",
+        "{% include 'parts/definitions' %}",
+        "{{ later }} {{ from_part }} {{ period.year_end_date }}",
+        "",
+      ].join("\n"),
+    );
+    writeFile(
+      "reconciliation_texts/variables/text_parts/definitions.liquid",
+      "{% assign later = 2 %}{% assign from_part = 3 %}\n",
+    );
+    writeFile("shared_parts/totals/totals.liquid", "{{ grand_total }}\n");
+    writeFile(
+      "reconciliation_texts/with_total/main.liquid",
+      "{% assign grand_total = 1 %}\n{% include 'shared/totals' %}\n",
+    );
+    writeFile(
+      "reconciliation_texts/without_total/main.liquid",
+      "{% include 'shared/totals' %}\n",
+    );
+    writeFile(
+      "reconciliation_texts/translations/main.liquid",
+      [
+        "{% t 'greeting' %}",
+        "{% t= 'greeting' default:'Hello' %}",
+        "{% t 'missing' %}",
+        "{% t 'greeting' %}",
+        "",
+      ].join("\n"),
+    );
+    writeFile(
+      "reconciliation_texts/locales/main.liquid",
+      [
+        "{% t= 'title' default:'Title' nl:'Titel' nl:'Kop' %}",
+        "{% t= 'subtitle' nl:'Ondertitel' %}",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  describe("includes", () => {
+    it("reports includes of parts that do not exist", async () => {
+      expect(
+        await diagnose("reconciliation_texts/includes/main.liquid"),
+      ).toEqual([
+        {
+          line: 1,
+          message: expect.stringMatching(
+            /^Included text part not found: "parts\/missing"$/,
+          ),
+          severity: DiagnosticSeverity.Error,
+        },
+        {
+          line: 3,
+          message: expect.stringMatching(
+            /^Included shared part not found: "shared\/missing"$/,
+          ),
+          severity: DiagnosticSeverity.Error,
+        },
+      ]);
+    });
+
+    it("reports circular includes", async () => {
+      expect(
+        await diagnose("reconciliation_texts/cycle/text_parts/first.liquid"),
+      ).toContainEqual({
+        line: 0,
+        message:
+          "Circular include: first.liquid -> second.liquid -> first.liquid",
+        severity: DiagnosticSeverity.Error,
+      });
+    });
+  });
+
+  describe("undefined variables", () => {
+    it("reports variables used before any definition in render order", async () => {
+      expect(
+        await diagnose("reconciliation_texts/variables/main.liquid"),
+      ).toEqual([
+        {
+          line: 2,
+          message: expect.stringMatching(
+            /^Variable "later" is not defined before it is used$/,
+          ),
+          severity: DiagnosticSeverity.Warning,
+        },
+      ]);
+    });
+
+    it("names the templates a shared part variable is undefined in", async () => {
+      expect(await diagnose("shared_parts/totals/totals.liquid")).toEqual([
+        {
+          line: 0,
+          message: expect.stringMatching(
+            /^Variable "grand_total" is not defined before it is used \(when included by without_total\)$/,
+          ),
+          severity: DiagnosticSeverity.Warning,
+        },
+      ]);
+    });
+  });
+
+  describe("translations", () => {
+    it("reports keys used before or without a definition", async () => {
+      expect(
+        await diagnose("reconciliation_texts/translations/main.liquid"),
+      ).toEqual([
+        {
+          line: 1,
+          message: expect.stringMatching(
+            /^Translation "greeting" is defined after its first use$/,
+          ),
+          severity: DiagnosticSeverity.Warning,
+        },
+        {
+          line: 0,
+          message: expect.stringMatching(
+            /^Translation "greeting" is used before it is defined, the raw key will be rendered$/,
+          ),
+          severity: DiagnosticSeverity.Warning,
+        },
+        {
+          line: 2,
+          message: expect.stringMatching(
+            /^Translation "missing" is not defined$/,
+          ),
+          severity: DiagnosticSeverity.Warning,
+        },
+      ]);
+    });
+  });
+
+  describe("translation locales", () => {
+    it("reports missing and duplicated locales", async () => {
+      expect(
+        await diagnose("reconciliation_texts/locales/main.liquid", {
+          requiredLocales: ["default", "nl", "fr"],
+        }),
+      ).toEqual([
+        {
+          line: 0,
+          message: expect.stringMatching(
+            /^Locale "nl" is declared more than once for translation "title"$/,
+          ),
+          severity: DiagnosticSeverity.Warning,
+        },
+        {
+          line: 0,
+          message: expect.stringMatching(
+            /^Translation "title" is missing locales: fr$/,
+          ),
+          severity: DiagnosticSeverity.Warning,
+        },
+        {
+          line: 1,
+          message: expect.stringMatching(
+            /^Translation "subtitle" is missing locales: default, fr$/,
+          ),
+          severity: DiagnosticSeverity.Warning,
+        },
+      ]);
+    });
+
+    it("only requires the default locale by default", async () => {
+      expect(
+        await diagnose("reconciliation_texts/locales/main.liquid"),
+      ).toEqual([
+        expect.objectContaining({ line: 0 }),
+        {
+          line: 1,
+          message: expect.stringMatching(
+            /^Translation "subtitle" is missing locales: default$/,
+          ),
+          severity: DiagnosticSeverity.Warning,
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { URI } from "vscode-uri";
+import { FoldingRangeKind } from "vscode-languageserver/node";
+import { FoldingRangeProvider } from "../../src/lspCapabilities/foldingRangeProvider";
+
+describe("FoldingRangeProvider", () => {
+  let workspaceRoot: string;
+
+  const foldingRanges = (text: string) => {
+    const filePath = path.join(workspaceRoot, "main.liquid");
+    fs.writeFileSync(filePath, text);
+    return new FoldingRangeProvider({
+      textDocument: { uri: URI.file(filePath).toString() },
+    }).handleFoldingRangeRequest();
+  };
+
+  beforeEach(() => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), "liquid-ls-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it("folds block tags and comments, keeping the closing tag visible", async () => {
+    const text = [
+      "{% if total > 0 %}",
+      "  {% for item in items %}",
+      "    {{ item }}",
+      "  {% endfor %}",
+      "{% endif %}",
+      "{% comment %}",
+      "  Notes",
+      "{% endcomment %}",
+      "{% capture label %}Total{% endcapture %}",
+      "",
+    ].join("\n");
+
+    expect(await foldingRanges(text)).toEqual([
+      { startLine: 0, endLine: 3 },
+      { startLine: 1, endLine: 2 },
+      { startLine: 5, endLine: 6, kind: FoldingRangeKind.Comment },
+    ]);
+  });
+
+  it("folds runs of translation definitions on consecutive lines", async () => {
+    const text = [
+      "{% t= 'title' default:'Title' %}",
+      "{% t= 'subtitle' default:'Subtitle' %}",
+      "",
+      "{% t= 'footer' default:'Footer' %}",
+      "",
+    ].join("\n");
+
+    expect(await foldingRanges(text)).toEqual([
+      { startLine: 0, endLine: 1, kind: FoldingRangeKind.Region },
+    ]);
+  });
+});
@@ -0,0 +1,128 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { URI } from "vscode-uri";
+import { HoverProvider } from "../../src/lspCapabilities/hoverProvider";
+
+describe("HoverProvider", () => {
+  let workspaceRoot: string;
+
+  const writeFile = (relativePath: string, content: string) => {
+    const filePath = path.join(workspaceRoot, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  const hover = (relativePath: string, line: number, character: number) =>
+    new HoverProvider(
+      {
+        textDocument: {
+          uri: URI.file(path.join(workspaceRoot, relativePath)).toString(),
+        },
+        position: { line, character },
+      },
+      workspaceRoot,
+    ).handleHoverRequest();
+
+  // The template collection is a singleton bound to the first workspace root,
+  // so every test shares one workspace
+  beforeAll(() => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), "liquid-ls-"));
+    writeFile(
+      "reconciliation_texts/balance/config.json",
+      JSON.stringify({ handle: "balance", text: "main.liquid" }),
+    );
+    writeFile(
+      "reconciliation_texts/balance/main.liquid",
+      [
+        "{% assign total = 10 %}",
+        "{{ total }}",
+        "{{ missing }}",
+        "{{ period.reconciliations.vat.results.due }}",
+        "{% include 'shared/footer' %}",
+        "",
+      ].join("\n"),
+    );
+    writeFile(
+      "reconciliation_texts/vat/config.json",
+      JSON.stringify({ handle: "vat", text: "main.liquid" }),
+    );
+    writeFile(
+      "reconciliation_texts/vat/main.liquid",
+      "{% assign due = 42 %}\n{% result 'due' due %}\n",
+    );
+    writeFile(
+      "shared_parts/footer/config.json",
+      JSON.stringify({
+        text: "footer.liquid",
+        used_in: [{ type: "reconciliationText", handle: "balance" }],
+      }),
+    );
+    writeFile(
+      "shared_parts/footer/footer.liquid",
+      "{% assign footer_total = total %}\nTotal: {{ footer_total }}\n",
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  describe("variables", () => {
+    it("shows the definition of a variable in an output tag", async () => {
+      const content = await hover(
+        "reconciliation_texts/balance/main.liquid",
+        1,
+        4,
+      );
+
+      expect(content).toContain("Variable: total");
+      expect(content).toContain("{% assign total = 10 %}");
+      expect(content).toContain(
+        "Defined in `reconciliation_texts/balance/main.liquid`, line 1",
+      );
+    });
+
+    it("returns null for a variable without definition", async () => {
+      expect(
+        await hover("reconciliation_texts/balance/main.liquid", 2, 4),
+      ).toBeNull();
+    });
+  });
+
+  describe("result lookups", () => {
+    it("shows the result tags of a lookup in an output tag", async () => {
+      const content = await hover(
+        "reconciliation_texts/balance/main.liquid",
+        3,
+        40,
+      );
+
+      expect(content).toContain("Result: due (vat)");
+      expect(content).toContain("{% result 'due' due %}");
+      expect(content).toContain(
+        "Defined in `reconciliation_texts/vat/main.liquid`, line 2",
+      );
+    });
+  });
+
+  describe("includes", () => {
+    it("previews the included shared part", async () => {
+      expect(
+        await hover("reconciliation_texts/balance/main.liquid", 4, 15),
+      ).toBe(
+        [
+          "Shared part: footer",
+          "",
+          "`shared_parts/footer/footer.liquid`, used in 1 template",
+          "",
+          "```liquid",
+          "{% assign footer_total = total %}",
+          "Total: {{ footer_total }}",
+          "```",
+          "Variables: `footer_total`",
+        ].join("\n"),
+      );
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { URI } from "vscode-uri";
+import { ReferencesProvider } from "../../src/lspCapabilities/referencesProvider";
+
+describe("ReferencesProvider", () => {
+  let workspaceRoot: string;
+
+  const writeFile = (relativePath: string, content: string) => {
+    const filePath = path.join(workspaceRoot, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  // Lists the references as "<relative path>:<line>:<character>"
+  const findReferences = async (
+    relativePath: string,
+    line: number,
+    character: number,
+    includeDeclaration: boolean,
+  ) =>
+    (
+      (await new ReferencesProvider(
+        {
+          textDocument: {
+            uri: URI.file(path.join(workspaceRoot, relativePath)).toString(),
+          },
+          position: { line, character },
+          context: { includeDeclaration },
+        },
+        workspaceRoot,
+      ).handleReferencesRequest()) ?? []
+    ).map(
+      ({ uri, range }) =>
+        `${path.relative(workspaceRoot, URI.parse(uri).fsPath)}:${range.start.line}:${range.start.character}`,
+    );
+
+  // The template collection is a singleton bound to the first workspace root,
+  // so every test shares one workspace
+  beforeAll(() => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), "liquid-ls-"));
+    writeFile(
+      "reconciliation_texts/balance/main.liquid",
+      [
+        "{% assign total = 1 %}",
+        "{% include 'parts/details' %}",
+        "{% t= 'title' default:'Title' %}",
+        "{% include 'shared/footer' %}",
+        "",
+      ].join("\n"),
+    );
+    writeFile(
+      "reconciliation_texts/balance/text_parts/details.liquid",
+      "{{ total }} {% t 'title' %}\n",
+    );
+    writeFile("shared_parts/footer/footer.liquid", "Total: {{ total }}\n");
+    writeFile(
+      "account_templates/assets/main.liquid",
+      "{% include 'shared/footer' %}\n",
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it("finds a variable in every part of the template", async () => {
+    expect(
+      await findReferences(
+        "reconciliation_texts/balance/main.liquid",
+        0,
+        11,
+        true,
+      ),
+    ).toEqual([
+      "reconciliation_texts/balance/main.liquid:0:10",
+      "reconciliation_texts/balance/text_parts/details.liquid:0:3",
+      "shared_parts/footer/footer.liquid:0:10",
+    ]);
+  });
+
+  it("leaves out the definitions unless requested", async () => {
+    expect(
+      await findReferences(
+        "reconciliation_texts/balance/text_parts/details.liquid",
+        0,
+        4,
+        false,
+      ),
+    ).toEqual([
+      "reconciliation_texts/balance/text_parts/details.liquid:0:3",
+      "shared_parts/footer/footer.liquid:0:10",
+    ]);
+  });
+
+  it("finds the uses and definitions of a translation key", async () => {
+    expect(
+      await findReferences(
+        "reconciliation_texts/balance/main.liquid",
+        2,
+        8,
+        true,
+      ),
+    ).toEqual([
+      "reconciliation_texts/balance/main.liquid:2:6",
+      "reconciliation_texts/balance/text_parts/details.liquid:0:17",
+    ]);
+  });
+
+  it("finds the includes of a shared part in every template", async () => {
+    expect(
+      (
+        await findReferences("shared_parts/footer/footer.liquid", 0, 1, true)
+      ).sort(),
+    ).toEqual([
+      "account_templates/assets/main.liquid:0:0",
+      "reconciliation_texts/balance/main.liquid:3:0",
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { URI } from "vscode-uri";
+import { ResponseError } from "vscode-languageserver/node";
+import { RenameProvider } from "../../src/lspCapabilities/renameProvider";
+
+describe("RenameProvider", () => {
+  let workspaceRoot: string;
+
+  const writeFile = (relativePath: string, content: string) => {
+    const filePath = path.join(workspaceRoot, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  const uriOf = (relativePath: string) =>
+    URI.file(path.join(workspaceRoot, relativePath)).toString();
+
+  const rename = (
+    relativePath: string,
+    line: number,
+    character: number,
+    newName: string,
+  ) =>
+    new RenameProvider(
+      {
+        textDocument: { uri: uriOf(relativePath) },
+        position: { line, character },
+        newName,
+      },
+      workspaceRoot,
+    ).handleRenameRequest(newName);
+
+  // The template collection is a singleton bound to the first workspace root,
+  // so every test shares one workspace
+  beforeAll(() => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), "liquid-ls-"));
+    writeFile(
+      "reconciliation_texts/balance/config.json",
+      JSON.stringify({
+        handle: "balance",
+        text: "main.liquid",
+        text_parts: { totals: "text_parts/totals.liquid" },
+      }),
+    );
+    writeFile(
+      "reconciliation_texts/balance/main.liquid",
+      [
+        "{% assign total = 10 %}",
+        "{% include 'parts/totals' %}",
+        "{% if total > 5 %}{{ total }}{% endif %}",
+        "{% assign status = 'open' %}",
+        "{% case status %}{% when 'open' %}Open{% endcase %}",
+        "",
+      ].join("\n"),
+    );
+    writeFile(
+      "reconciliation_texts/balance/text_parts/totals.liquid",
+      "{% assign doubled = total | times: 2 %}\n",
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it("renames a variable in every part of the template", async () => {
+    const edit = await rename(
+      "reconciliation_texts/balance/main.liquid",
+      0,
+      11,
+      "amount",
+    );
+
+    expect(edit).toEqual({
+      changes: {
+        [uriOf("reconciliation_texts/balance/main.liquid")]: [
+          {
+            range: {
+              start: { line: 0, character: 10 },
+              end: { line: 0, character: 15 },
+            },
+            newText: "amount",
+          },
+          {
+            range: {
+              start: { line: 2, character: 6 },
+              end: { line: 2, character: 11 },
+            },
+            newText: "amount",
+          },
+          {
+            range: {
+              start: { line: 2, character: 21 },
+              end: { line: 2, character: 26 },
+            },
+            newText: "amount",
+          },
+        ],
+        [uriOf("reconciliation_texts/balance/text_parts/totals.liquid")]: [
+          {
+            range: {
+              start: { line: 0, character: 20 },
+              end: { line: 0, character: 25 },
+            },
+            newText: "amount",
+          },
+        ],
+      },
+    });
+  });
+
+  it("refuses to rename a variable used where it is not recognized", async () => {
+    const result = await rename(
+      "reconciliation_texts/balance/main.liquid",
+      3,
+      11,
+      "state",
+    );
+
+    expect(result).toBeInstanceOf(ResponseError);
+    expect((result as ResponseError<void>).message).toContain(
+      "reconciliation_texts/balance/main.liquid, line 5",
+    );
+  });
+
+  it("refuses invalid variable names", async () => {
+    expect(
+      await rename("reconciliation_texts/balance/main.liquid", 0, 11, "1st"),
+    ).toBeInstanceOf(ResponseError);
+  });
+});
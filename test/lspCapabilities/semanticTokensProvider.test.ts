@@ -0,0 +1,83 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { URI } from "vscode-uri";
+import { Range, SemanticTokens } from "vscode-languageserver/node";
+import { SemanticTokensProvider } from "../../src/lspCapabilities/semanticTokensProvider";
+import { LiquidSemanticTokensLegend } from "../../src/lspCapabilities/types";
+
+describe("SemanticTokensProvider", () => {
+  let workspaceRoot: string;
+  let filePath: string;
+
+  // Decodes the relative positions of the encoded tokens
+  const decode = ({ data }: SemanticTokens) => {
+    const tokens: string[] = [];
+    let line = 0;
+    let character = 0;
+    for (let i = 0; i < data.length; i += 5) {
+      const [deltaLine, deltaStart, length, tokenType, modifierBits] =
+        data.slice(i, i + 5);
+      line += deltaLine;
+      character = deltaLine === 0 ? character + deltaStart : deltaStart;
+      const modifiers = LiquidSemanticTokensLegend.tokenModifiers.filter(
+        (_, index) => modifierBits & (1 << index),
+      );
+      tokens.push(
+        [
+          `${line}:${character}:${length}`,
+          LiquidSemanticTokensLegend.tokenTypes[tokenType],
+          ...modifiers,
+        ].join(" "),
+      );
+    }
+    return tokens;
+  };
+
+  const requestTokens = async (range?: Range) =>
+    decode(
+      await new SemanticTokensProvider({
+        textDocument: { uri: URI.file(filePath).toString() },
+        ...(range ? { range } : {}),
+      }).handleSemanticTokensRequest(),
+    );
+
+  beforeEach(() => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), "liquid-ls-"));
+    filePath = path.join(workspaceRoot, "main.liquid");
+    fs.writeFileSync(
+      filePath,
+      [
+        "{% assign total = amount | plus: 1 %}",
+        "{% t 'title' %}",
+        "{% input custom.vat.rate %}",
+        "{{ period }}",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it("classifies variables, translation keys, filters, custom tags and drops", async () => {
+    expect(await requestTokens()).toEqual([
+      "0:10:5 variable declaration",
+      "0:18:6 variable",
+      "0:27:4 function",
+      "1:5:7 property",
+      "2:3:5 keyword",
+      "3:3:6 variable defaultLibrary",
+    ]);
+  });
+
+  it("only encodes the tokens of the requested lines", async () => {
+    expect(
+      await requestTokens({
+        start: { line: 1, character: 0 },
+        end: { line: 2, character: 0 },
+      }),
+    ).toEqual(["1:5:7 property", "2:3:5 keyword"]);
+  });
+});
@@ -0,0 +1,147 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { IncludeIndex } from "../../src/templates/includeIndex";
+import { TemplateWorkspaceScanner } from "../../src/templates/templateWorkspaceScanner";
+
+describe("TemplateWorkspaceScanner", () => {
+  let workspaceRoot: string;
+
+  const writeFile = (relativePath: string, content: string) => {
+    const filePath = path.join(workspaceRoot, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  beforeEach(() => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), "liquid-ls-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  describe("findSharedPartUsages", () => {
+    const marketRepo = path.join(__dirname, "../../fixtures/market-repo");
+
+    it("lists the templates including a shared part", () => {
+      const scanner = new TemplateWorkspaceScanner(marketRepo);
+
+      expect(scanner.findSharedPartUsages("shared_part_1")).toEqual([
+        { type: "reconciliationText", handle: "reconciliation_text_1" },
+        { type: "reconciliationText", handle: "reconciliation_text_2" },
+      ]);
+      expect(scanner.findSharedPartUsages("shared_part_2")).toEqual([
+        { type: "reconciliationText", handle: "reconciliation_text_2" },
+      ]);
+    });
+
+    it("returns no usages for a shared part that is not included", () => {
+      const scanner = new TemplateWorkspaceScanner(marketRepo);
+
+      expect(scanner.findSharedPartUsages("shared_part_3")).toEqual([]);
+    });
+
+    it("lists reconciliation texts by the handle of their config.json", () => {
+      writeFile("shared_parts/footer/footer.liquid", "Footer\n");
+      writeFile(
+        "reconciliation_texts/balance_folder/main.liquid",
+        "{% include 'shared/footer' %}\n",
+      );
+      writeFile(
+        "reconciliation_texts/balance_folder/config.json",
+        JSON.stringify({ handle: "balance_check", text: "main.liquid" }),
+      );
+      writeFile(
+        "account_templates/assets/main.liquid",
+        "{% include 'shared/footer' %}\n",
+      );
+      const scanner = new TemplateWorkspaceScanner(workspaceRoot);
+
+      expect(scanner.findSharedPartUsages("footer")).toEqual([
+        { type: "accountTemplate", handle: "assets" },
+        { type: "reconciliationText", handle: "balance_check" },
+      ]);
+    });
+
+    it("leaves out the shared part itself", () => {
+      writeFile(
+        "shared_parts/footer/footer.liquid",
+        "{% include 'shared/footer' %}\n",
+      );
+      const scanner = new TemplateWorkspaceScanner(workspaceRoot);
+
+      expect(scanner.findSharedPartUsages("footer")).toEqual([]);
+    });
+  });
+
+  describe("findTemplatesRenderingSharedPart", () => {
+    it("follows shared parts including each other", () => {
+      writeFile("shared_parts/footer/footer.liquid", "Footer\n");
+      writeFile(
+        "shared_parts/layout/layout.liquid",
+        "{% include 'shared/footer' %}\n",
+      );
+      writeFile(
+        "reconciliation_texts/balance/main.liquid",
+        "{% include 'shared/layout' %}\n",
+      );
+      const scanner = new TemplateWorkspaceScanner(workspaceRoot);
+
+      expect(scanner.findTemplatesRenderingSharedPart("footer")).toEqual([
+        { templateType: "reconciliationText", templateName: "balance" },
+      ]);
+    });
+
+    it("keeps the include tags until the index is invalidated", () => {
+      writeFile("shared_parts/footer/footer.liquid", "Footer\n");
+      writeFile(
+        "reconciliation_texts/balance/main.liquid",
+        "{% include 'shared/footer' %}\n",
+      );
+      const scanner = new TemplateWorkspaceScanner(workspaceRoot);
+      scanner.findTemplatesRenderingSharedPart("footer");
+
+      writeFile(
+        "account_templates/assets/main.liquid",
+        "{% include 'shared/footer' %}\n",
+      );
+      expect(scanner.findTemplatesRenderingSharedPart("footer")).toHaveLength(
+        1,
+      );
+
+      IncludeIndex.getInstance().invalidate();
+      expect(scanner.findTemplatesRenderingSharedPart("footer")).toEqual([
+        { templateType: "accountTemplate", templateName: "assets" },
+        { templateType: "reconciliationText", templateName: "balance" },
+      ]);
+    });
+  });
+
+  describe("listTemplates", () => {
+    it("skips entries that cannot be read", () => {
+      writeFile("reconciliation_texts/balance/main.liquid", "Balance\n");
+      writeFile("reconciliation_texts/balance/parts/part_1.liquid", "Part\n");
+      fs.symlinkSync(
+        path.join(workspaceRoot, "missing"),
+        path.join(workspaceRoot, "reconciliation_texts/broken_link"),
+      );
+      fs.symlinkSync(
+        path.join(workspaceRoot, "missing.liquid"),
+        path.join(workspaceRoot, "reconciliation_texts/balance/broken.liquid"),
+      );
+      const scanner = new TemplateWorkspaceScanner(workspaceRoot);
+
+      const templates = scanner.listTemplates();
+      expect(templates.map((template) => template.templateName)).toEqual([
+        "balance",
+      ]);
+      expect(
+        scanner
+          .listLiquidFiles(templates[0].templateDir)
+          .map((filePath) => path.relative(templates[0].templateDir, filePath))
+          .sort(),
+      ).toEqual(["main.liquid", path.join("parts", "part_1.liquid")]);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { DiagnosticSeverity } from "vscode-languageserver/node";
+import {
+  FileDiagnostics,
+  formatHuman,
+  formatJson,
+  formatSarif,
+} from "../../src/utils/diagnosticsFormatter";
+import { DiagnosticSource } from "../../src/lspCapabilities/types";
+
+const results: FileDiagnostics[] = [
+  {
+    filePath: "reconciliation_texts/balance/main.liquid",
+    diagnostics: [
+      {
+        range: {
+          start: { line: 2, character: 4 },
+          end: { line: 2, character: 12 },
+        },
+        message: "Included shared part not found: shared/missing",
+        severity: DiagnosticSeverity.Error,
+        source: DiagnosticSource,
+      },
+      {
+        range: {
+          start: { line: 5, character: 0 },
+          end: { line: 5, character: 3 },
+        },
+        message: "Variable foo is not defined before it is used",
+        severity: DiagnosticSeverity.Warning,
+        source: DiagnosticSource,
+      },
+    ],
+  },
+  {
+    filePath: "shared_parts/footer/config.json",
+    diagnostics: [
+      {
+        range: {
+          start: { line: 0, character: 0 },
+          end: { line: 0, character: 1 },
+        },
+        message: "reconciliationText balance is listed in used_in",
+        severity: DiagnosticSeverity.Information,
+        source: DiagnosticSource,
+        code: "used-in-stale",
+      },
+    ],
+  },
+];
+
+describe("formatHuman", () => {
+  it("prints one line per diagnostic with 1-based positions", () => {
+    const lines = formatHuman(results).trimEnd().split("\n");
+
+    expect(lines).toEqual([
+      "reconciliation_texts/balance/main.liquid:3:5  error  Included shared part not found: shared/missing",
+      "reconciliation_texts/balance/main.liquid:6:1  warning  Variable foo is not defined before it is used",
+      "shared_parts/footer/config.json:1:1  info  reconciliationText balance is listed in used_in",
+      "1 errors, 1 warnings in 2 files",
+    ]);
+  });
+
+  it("prints only the summary without diagnostics", () => {
+    expect(formatHuman([])).toBe("0 errors, 0 warnings in 0 files\n");
+  });
+});
+
+describe("formatJson", () => {
+  it("prints the results as JSON", () => {
+    const output = formatJson(results);
+
+    expect(output.endsWith("\n")).toBe(true);
+    expect(JSON.parse(output)).toEqual(results);
+  });
+});
+
+describe("formatSarif", () => {
+  it("prints a SARIF 2.1.0 log with one result per diagnostic", () => {
+    const sarifLog = JSON.parse(formatSarif(results));
+
+    expect(sarifLog.version).toBe("2.1.0");
+    expect(sarifLog.runs).toHaveLength(1);
+    expect(sarifLog.runs[0].tool.driver.name).toBe(DiagnosticSource);
+
+    const sarifResults = sarifLog.runs[0].results;
+    expect(
+      sarifResults.map((result: { level: string }) => result.level),
+    ).toEqual(["error", "warning", "note"]);
+    expect(sarifResults[0]).toEqual({
+      ruleId: DiagnosticSource,
+      level: "error",
+      message: { text: "Included shared part not found: shared/missing" },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: {
+              uri: "reconciliation_texts/balance/main.liquid",
+            },
+            region: {
+              startLine: 3,
+              startColumn: 5,
+              endLine: 3,
+              endColumn: 13,
+            },
+          },
+        },
+      ],
+    });
+  });
+
+  it("uses the diagnostic code as rule id", () => {
+    const sarifLog = JSON.parse(formatSarif(results));
+
+    expect(sarifLog.runs[0].results[2].ruleId).toBe("used-in-stale");
+  });
+});